@@ -1,11 +1,19 @@
-import React, { Component, ErrorInfo, ReactNode } from 'react';
+import React, { Component, ErrorInfo, ReactNode, useEffect, useRef } from 'react';
 import { StatusBar } from 'expo-status-bar';
-import { NavigationContainer } from '@react-navigation/native';
+import {
+  NavigationContainer,
+  NavigationState,
+  createNavigationContainerRef,
+} from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { View, Text, ActivityIndicator, StyleSheet, ScrollView } from 'react-native';
+import { View, Text, ActivityIndicator, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { Home, Package, DollarSign, User } from 'lucide-react-native';
 import { AuthProvider, useAuth } from './src/hooks/useAuth';
+import { AppLockProvider, useAppLock } from './src/hooks/useAppLock';
+import { StatusOutboxProvider } from './src/hooks/useStatusOutbox';
+import { OrdersSocketProvider } from './src/hooks/useOrdersSocket';
+import { onSessionExpired } from './src/services/authEvents';
 import {
   LoginScreen,
   HomeScreen,
@@ -14,6 +22,15 @@ import {
   HistoryScreen,
   EarningsScreen,
   ProfileScreen,
+  OnboardingScreen,
+  PendingApprovalScreen,
+  ForgotPasswordScreen,
+  DriverRejectedScreen,
+  DriverSuspendedScreen,
+  AppLockScreen,
+  AppLockSettingsScreen,
+  SessionsScreen,
+  ConnectionDiagnosticsScreen,
 } from './src/screens';
 
 // Error Boundary to catch crashes
@@ -61,6 +78,7 @@ class ErrorBoundary extends Component<{ children: ReactNode }, ErrorBoundaryStat
 }
 
 const Stack = createNativeStackNavigator();
+const navigationRef = createNavigationContainerRef();
 const Tab = createBottomTabNavigator();
 
 function TabIcon({ name, focused }: { name: string; focused: boolean }) {
@@ -121,20 +139,25 @@ function MainTabs() {
 function AppNavigator() {
   console.log('AppNavigator rendering...');
 
-  let authData;
+  let authData: ReturnType<typeof useAuth> | null = null;
+  let authError: unknown = null;
   try {
     authData = useAuth();
     console.log('useAuth result:', { isAuthenticated: authData.isAuthenticated, isLoading: authData.isLoading });
   } catch (error) {
     console.error('useAuth error:', error);
+    authError = error;
+  }
+
+  if (!authData) {
     return (
       <View style={styles.loadingContainer}>
-        <Text style={{ color: 'red' }}>Auth Error: {String(error)}</Text>
+        <Text style={{ color: 'red' }}>Auth Error: {String(authError)}</Text>
       </View>
     );
   }
 
-  const { isAuthenticated, isLoading } = authData;
+  const { isAuthenticated, isLoading, driver, profileLoadFailed, retryLoadAuth, logout } = authData;
 
   if (isLoading) {
     console.log('AppNavigator: showing loading...');
@@ -146,39 +169,200 @@ function AppNavigator() {
     );
   }
 
+  // Saved session but no profile yet: don't guess the driver's status, wait for the server
+  if (profileLoadFailed) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadErrorText}>Não foi possível carregar seu perfil. Verifique sua conexão.</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={retryLoadAuth}>
+          <Text style={styles.retryButtonText}>Tentar novamente</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.logoutButton} onPress={logout}>
+          <Text style={styles.logoutButtonText}>Sair</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   console.log('AppNavigator: rendering navigator, isAuthenticated:', isAuthenticated);
 
-  return (
-    <Stack.Navigator>
-      {isAuthenticated ? (
+  // Status gate: only approved drivers reach the main app (and toggleOnline)
+  const renderScreens = () => {
+    if (!isAuthenticated) {
+      return (
         <>
           <Stack.Screen
-            name="Main"
-            component={MainTabs}
+            name="Login"
+            component={LoginScreen}
             options={{ headerShown: false }}
           />
           <Stack.Screen
-            name="CurrentDelivery"
-            component={CurrentDeliveryScreen}
-            options={{ headerShown: false }}
-          />
-          <Stack.Screen
-            name="DeliveryDetails"
-            component={DeliveryDetailsScreen}
+            name="ForgotPassword"
+            component={ForgotPasswordScreen}
             options={{ headerShown: false }}
           />
         </>
-      ) : (
+      );
+    }
+
+    if (!driver) {
+      return (
         <Stack.Screen
-          name="Login"
-          component={LoginScreen}
+          name="Onboarding"
+          component={OnboardingScreen}
           options={{ headerShown: false }}
         />
-      )}
+      );
+    }
+
+    switch (driver.status) {
+      case 'APPROVED':
+        return (
+          <>
+            <Stack.Screen
+              name="Main"
+              component={MainTabs}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="CurrentDelivery"
+              component={CurrentDeliveryScreen}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="DeliveryDetails"
+              component={DeliveryDetailsScreen}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="AppLockSettings"
+              component={AppLockSettingsScreen}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="Sessions"
+              component={SessionsScreen}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="ConnectionDiagnostics"
+              component={ConnectionDiagnosticsScreen}
+              options={{ headerShown: false }}
+            />
+          </>
+        );
+      case 'REJECTED':
+        return (
+          <>
+            <Stack.Screen
+              name="DriverRejected"
+              component={DriverRejectedScreen}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="Onboarding"
+              component={OnboardingScreen}
+              options={{ headerShown: false }}
+            />
+          </>
+        );
+      case 'SUSPENDED':
+        return (
+          <Stack.Screen
+            name="DriverSuspended"
+            component={DriverSuspendedScreen}
+            options={{ headerShown: false }}
+          />
+        );
+      case 'PENDING':
+      default:
+        return (
+          <Stack.Screen
+            name="PendingApproval"
+            component={PendingApprovalScreen}
+            options={{ headerShown: false }}
+          />
+        );
+    }
+  };
+
+  return (
+    <Stack.Navigator>
+      {renderScreens()}
     </Stack.Navigator>
   );
 }
 
+// Replaces the whole app while the app-lock PIN is required. Covering it is not
+// enough: React Native Modals (offers, delivery alerts) render above any view.
+// The navigation state is kept so unlocking returns to the same screen.
+function AppLockGate({ children }: { children: ReactNode }) {
+  const { isLocked, isChecking } = useAppLock();
+
+  if (isChecking) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#F97316" />
+      </View>
+    );
+  }
+  return isLocked ? <AppLockScreen /> : <>{children}</>;
+}
+
+function AppContent() {
+  const { user, driver } = useAuth();
+  const navigationStateRef = useRef<NavigationState | undefined>(undefined);
+
+  // Remember where the driver was when the session expired, so the same
+  // screen (e.g. the current delivery) is restored after logging in again
+  const userIdRef = useRef<string | null>(null);
+  const expiredSessionRef = useRef<{ userId: string; state: NavigationState } | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      userIdRef.current = user.id;
+    }
+  }, [user]);
+
+  useEffect(() => {
+    return onSessionExpired(() => {
+      const userId = userIdRef.current;
+      if (!userId || !navigationRef.isReady() || expiredSessionRef.current) return;
+      expiredSessionRef.current = { userId, state: navigationRef.getRootState() };
+    });
+  }, []);
+
+  // Wait for the driver profile: until then only Onboarding is registered and
+  // React Navigation would drop the saved routes. The lock gate remounts the
+  // navigator after login, so the state also becomes its initial state.
+  useEffect(() => {
+    const expiredSession = expiredSessionRef.current;
+    if (!user || !driver || !expiredSession) return;
+
+    expiredSessionRef.current = null;
+    if (expiredSession.userId !== user.id) return;
+    navigationStateRef.current = expiredSession.state;
+    if (navigationRef.isReady()) {
+      navigationRef.resetRoot(expiredSession.state);
+    }
+  }, [user, driver]);
+
+  return (
+    <AppLockGate>
+      <NavigationContainer
+        ref={navigationRef}
+        initialState={navigationStateRef.current}
+        onStateChange={(state) => {
+          navigationStateRef.current = state;
+        }}
+      >
+        <StatusBar style="auto" />
+        <AppNavigator />
+      </NavigationContainer>
+    </AppLockGate>
+  );
+}
+
 export default function App() {
   console.log('App rendering...');
 
@@ -190,10 +374,13 @@ export default function App() {
     return (
       <ErrorBoundary>
         <AuthProvider>
-          <NavigationContainer>
-            <StatusBar style="auto" />
-            <AppNavigator />
-          </NavigationContainer>
+          <AppLockProvider>
+            <StatusOutboxProvider>
+              <OrdersSocketProvider>
+                <AppContent />
+              </OrdersSocketProvider>
+            </StatusOutboxProvider>
+          </AppLockProvider>
         </AuthProvider>
       </ErrorBoundary>
     );
@@ -202,10 +389,13 @@ export default function App() {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <NavigationContainer>
-          <StatusBar style="auto" />
-          <AppNavigator />
-        </NavigationContainer>
+        <AppLockProvider>
+          <StatusOutboxProvider>
+            <OrdersSocketProvider>
+              <AppContent />
+            </OrdersSocketProvider>
+          </StatusOutboxProvider>
+        </AppLockProvider>
       </AuthProvider>
     </ErrorBoundary>
   );
@@ -223,6 +413,32 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  loadErrorText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    paddingHorizontal: 32,
+  },
+  retryButton: {
+    marginTop: 24,
+    backgroundColor: '#F97316',
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    marginTop: 12,
+    padding: 8,
+  },
+  logoutButtonText: {
+    color: '#666',
+    fontSize: 14,
+  },
   tabIconContainer: {
     alignItems: 'center',
     justifyContent: 'center',
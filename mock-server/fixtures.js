@@ -0,0 +1,242 @@
+// Seeded data for the mock backend. createFixtures() returns a fresh copy so
+// POST /__mock/reset can bring the server back to a known state.
+
+const PASSWORD = 'senha123';
+const VERIFICATION_CODE = '123456';
+
+const minutesAgo = (minutes) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+const daysAgo = (days) => minutesAgo(days * 24 * 60);
+
+const RESTAURANTS = [
+  {
+    id: 'rest-1',
+    name: 'Burger House',
+    phone: '+5511933334444',
+    street: 'Rua Augusta',
+    number: '1200',
+    neighborhood: 'Consolação',
+    city: 'São Paulo',
+    state: 'SP',
+    zipCode: '01304-001',
+    latitude: -23.5558,
+    longitude: -46.6622,
+  },
+  {
+    id: 'rest-2',
+    name: 'Pizzaria Bella Napoli',
+    phone: '+5511922223333',
+    street: 'Rua Oscar Freire',
+    number: '450',
+    neighborhood: 'Jardins',
+    city: 'São Paulo',
+    state: 'SP',
+    zipCode: '01426-001',
+    latitude: -23.5627,
+    longitude: -46.6693,
+  },
+  {
+    id: 'rest-3',
+    name: 'Sushi Kento',
+    phone: '+5511911112222',
+    street: 'Rua da Liberdade',
+    number: '88',
+    neighborhood: 'Liberdade',
+    city: 'São Paulo',
+    state: 'SP',
+    zipCode: '01503-000',
+    latitude: -23.5587,
+    longitude: -46.6345,
+  },
+];
+
+const CUSTOMERS = [
+  { fullName: 'Maria Oliveira', phone: '+5511987654321' },
+  { fullName: 'Carlos Souza', phone: '+5511976543210' },
+  { fullName: 'Ana Lima', phone: '+5511965432109' },
+];
+
+const ADDRESSES = [
+  {
+    street: 'Rua Haddock Lobo',
+    number: '595',
+    complement: 'Apto 42',
+    neighborhood: 'Cerqueira César',
+    city: 'São Paulo',
+    state: 'SP',
+    zipCode: '01414-001',
+    latitude: -23.5611,
+    longitude: -46.6646,
+  },
+  {
+    street: 'Alameda Santos',
+    number: '1000',
+    neighborhood: 'Jardim Paulista',
+    city: 'São Paulo',
+    state: 'SP',
+    zipCode: '01418-100',
+    latitude: -23.5663,
+    longitude: -46.6547,
+  },
+  {
+    street: 'Rua Vergueiro',
+    number: '2100',
+    complement: 'Casa 2',
+    neighborhood: 'Vila Mariana',
+    city: 'São Paulo',
+    state: 'SP',
+    zipCode: '04102-000',
+    latitude: -23.5822,
+    longitude: -46.6386,
+  },
+];
+
+const MENU = [
+  { name: 'X-Burger', price: 28.9 },
+  { name: 'Batata frita', price: 14.5 },
+  { name: 'Pizza margherita', price: 59.9 },
+  { name: 'Refrigerante lata', price: 6.5 },
+  { name: 'Combo sushi 20 peças', price: 79.9 },
+  { name: 'Temaki salmão', price: 32 },
+];
+
+let orderSequence = 1000;
+
+// Builds an order as the backend sends it: decimals as strings, items nested under menuItem
+function createOrder(overrides = {}) {
+  orderSequence += 1;
+  const index = orderSequence % RESTAURANTS.length;
+  const items = [MENU[(index * 2) % MENU.length], MENU[(index * 2 + 1) % MENU.length]].map(
+    (menuItem, position) => ({
+      id: `item-${orderSequence}-${position}`,
+      quantity: position + 1,
+      menuItem: { name: menuItem.name },
+      price: menuItem.price,
+    })
+  );
+  const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  return {
+    id: `order-${orderSequence}`,
+    orderNumber: `#${orderSequence}`,
+    status: 'PENDING',
+    driverId: null,
+    restaurant: RESTAURANTS[index],
+    customer: CUSTOMERS[index],
+    deliveryAddress: ADDRESSES[index],
+    items,
+    total: total.toFixed(2),
+    deliveryFee: (6 + index * 1.5).toFixed(2),
+    paymentMethod: index === 1 ? 'Dinheiro' : 'Cartão de crédito',
+    notes: index === 2 ? 'Interfone quebrado, ligar ao chegar' : undefined,
+    estimatedDistance: 2.4 + index,
+    estimatedTime: 15 + index * 5,
+    createdAt: minutesAgo(2),
+    ...overrides,
+  };
+}
+
+function createDriver(overrides) {
+  return {
+    phone: '+5511999990000',
+    cpf: '52998224725',
+    vehicleType: 'MOTORCYCLE',
+    vehiclePlate: 'ABC1D23',
+    isOnline: false,
+    rating: 4.8,
+    totalDeliveries: 0,
+    totalEarnings: 0,
+    statusUpdatedAt: daysAgo(1),
+    createdAt: daysAgo(30),
+    ...overrides,
+  };
+}
+
+function createFixtures() {
+  const drivers = [
+    createDriver({
+      id: 'driver-1',
+      userId: 'user-1',
+      fullName: 'João da Silva',
+      status: 'APPROVED',
+      totalDeliveries: 3,
+      totalEarnings: 27.5,
+    }),
+    createDriver({
+      id: 'driver-2',
+      userId: 'user-2',
+      fullName: 'Pedro Santos',
+      phone: '+5511999991111',
+      status: 'PENDING',
+      rating: 0,
+    }),
+    createDriver({
+      id: 'driver-3',
+      userId: 'user-4',
+      fullName: 'Lucas Pereira',
+      phone: '+5511999993333',
+      status: 'SUSPENDED',
+      suspensionReason: 'Cancelamentos excessivos nos últimos 7 dias',
+      suspendedUntil: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
+    }),
+    createDriver({
+      id: 'driver-4',
+      userId: 'user-6',
+      fullName: 'Rafael Costa',
+      phone: '+5511999994444',
+      cpf: '11144477735',
+      status: 'REJECTED',
+      rating: 0,
+      rejectionReasons: ['Foto da CNH ilegível', 'Placa do veículo não confere com o documento'],
+    }),
+  ];
+
+  const users = [
+    { id: 'user-1', email: 'motorista@zefood.app', role: 'DRIVER' },
+    { id: 'user-2', email: 'pendente@zefood.app', role: 'DRIVER' },
+    { id: 'user-3', email: 'novo@zefood.app', role: 'DRIVER' },
+    { id: 'user-4', email: 'suspenso@zefood.app', role: 'DRIVER' },
+    { id: 'user-5', email: 'cliente@zefood.app', role: 'CUSTOMER' },
+    { id: 'user-6', email: 'recusado@zefood.app', role: 'DRIVER' },
+  ];
+
+  const delivered = [
+    createOrder({ status: 'DELIVERED', driverId: 'driver-1', deliveredAt: daysAgo(1) }),
+    createOrder({ status: 'DELIVERED', driverId: 'driver-1', deliveredAt: daysAgo(2) }),
+    createOrder({ status: 'DELIVERED', driverId: 'driver-1', deliveredAt: daysAgo(3) }),
+  ];
+
+  const earnings = [
+    ...delivered.map((order) => ({
+      id: `earning-${order.id}`,
+      driverId: 'driver-1',
+      amount: order.deliveryFee,
+      type: 'DELIVERY',
+      description: `Entrega ${order.orderNumber}`,
+      createdAt: order.deliveredAt,
+      order: { orderNumber: order.orderNumber, restaurant: { name: order.restaurant.name } },
+    })),
+    {
+      id: 'earning-bonus-1',
+      driverId: 'driver-1',
+      amount: '5.00',
+      type: 'BONUS',
+      description: 'Bônus de horário de pico',
+      createdAt: daysAgo(2),
+    },
+  ];
+
+  return {
+    users,
+    drivers,
+    orders: [...delivered, createOrder(), createOrder(), createOrder()],
+    earnings,
+    // accessToken -> session, filled on login
+    sessions: [],
+    // Refresh tokens of sessions ended via /auth/sessions, answered with SESSION_REVOKED
+    revokedRefreshTokens: [],
+    // Offers passed on by drivers: { driverId, orderId, reason, note, createdAt }
+    declines: [],
+  };
+}
+
+module.exports = { PASSWORD, VERIFICATION_CODE, createFixtures, createOrder };
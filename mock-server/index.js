@@ -0,0 +1,628 @@
+// Local mock of the driver backend: the REST endpoints under /api and the
+// /orders socket.io namespace the app uses. State lives in memory and is seeded
+// from fixtures.js on start.
+//
+//   npm run mock-server                              # http://localhost:3001
+//   npm run mock-server -- --scenario=lunch-rush     # with a scripted scenario
+//
+// Login with any seeded email (motorista@zefood.app, pendente@zefood.app,
+// novo@zefood.app, suspenso@zefood.app, recusado@zefood.app) and the password
+// "senha123". SMS and password-reset codes are always "123456".
+
+const http = require('http');
+const crypto = require('crypto');
+const { Server } = require('socket.io');
+const { PASSWORD, VERIFICATION_CODE, createFixtures, createOrder } = require('./fixtures');
+const { scenarios, runScenario } = require('./scenarios');
+
+const PORT = Number(process.env.MOCK_PORT || 3001);
+const API_PREFIX = '/api';
+
+// Allowed order status transitions for the driver
+const TRANSITIONS = {
+  PICKED_UP: ['IN_TRANSIT', 'CANCELLED'],
+  IN_TRANSIT: ['DELIVERED', 'CANCELLED'],
+};
+
+class HttpError extends Error {
+  constructor(status, message, code) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+let state = createFixtures();
+// Idempotency-Key -> response already sent for it
+let idempotentResponses = new Map();
+let stopScenario = null;
+const DECLINE_REASONS = ['TOO_FAR', 'LOW_FEE', 'WRONG_VEHICLE', 'OTHER'];
+// How long drivers get to answer a pushed offer
+const OFFER_TTL_MS = 30 * 1000;
+// Recent driver events, so a reconnecting app can ask for what it missed
+const EVENT_LOG_SIZE = 200;
+let eventLog = [];
+let lastEventId = 0;
+
+const server = http.createServer(handleRequest);
+const io = new Server(server, { cors: { origin: '*' } });
+const ordersNamespace = io.of('/orders');
+
+const newToken = (prefix) => `${prefix}-${crypto.randomBytes(16).toString('hex')}`;
+
+// ---------------------------------------------------------------------------
+// State helpers
+// ---------------------------------------------------------------------------
+
+const findUser = (id) => state.users.find((user) => user.id === id);
+const findDriverByUser = (userId) => state.drivers.find((driver) => driver.userId === userId);
+const findOrder = (id) => state.orders.find((order) => order.id === id);
+const findSession = (accessToken) =>
+  state.sessions.find((session) => session.accessToken === accessToken);
+
+const availableOrders = () =>
+  state.orders.filter((order) => order.status === 'PENDING' && !order.driverId);
+
+const activeOrderFor = (driverId) =>
+  state.orders.find(
+    (order) => order.driverId === driverId && TRANSITIONS[order.status] !== undefined
+  );
+
+const publicDriver = (driver) => {
+  const { userId, ...rest } = driver;
+  return rest;
+};
+
+const publicUser = (user) => {
+  const driver = findDriverByUser(user.id);
+  return { ...user, driver: driver ? publicDriver(driver) : undefined };
+};
+
+function createSession(user, deviceName = 'Dispositivo') {
+  const session = {
+    id: newToken('session'),
+    userId: user.id,
+    accessToken: newToken('access'),
+    refreshToken: newToken('refresh'),
+    deviceName,
+    platform: deviceName,
+    ipAddress: '127.0.0.1',
+    createdAt: new Date().toISOString(),
+    lastActiveAt: new Date().toISOString(),
+  };
+  state.sessions.push(session);
+  return session;
+}
+
+const authResponse = (user, session) => ({
+  accessToken: session.accessToken,
+  refreshToken: session.refreshToken,
+  user: publicUser(user),
+});
+
+function revokeSession(session) {
+  state.sessions = state.sessions.filter((item) => item.id !== session.id);
+  state.revokedRefreshTokens.push(session.refreshToken);
+  ordersNamespace.to(`session:${session.id}`).emit('sessionRevoked');
+}
+
+function addEarning(driver, order) {
+  state.earnings.push({
+    id: `earning-${order.id}`,
+    driverId: driver.id,
+    amount: order.deliveryFee,
+    type: 'DELIVERY',
+    description: `Entrega ${order.orderNumber}`,
+    createdAt: order.deliveredAt,
+    order: { orderNumber: order.orderNumber, restaurant: { name: order.restaurant.name } },
+  });
+  driver.totalDeliveries += 1;
+  driver.totalEarnings = Number((driver.totalEarnings + Number(order.deliveryFee)).toFixed(2));
+}
+
+// ---------------------------------------------------------------------------
+// Socket events emitted by the server
+// ---------------------------------------------------------------------------
+
+// Emits to the rooms with an increasing eventId and keeps it for replayEvents
+function publish(rooms, event, payload, except) {
+  lastEventId += 1;
+  const entry = { rooms, except, event, payload: { ...payload, eventId: String(lastEventId) } };
+  eventLog = [...eventLog, entry].slice(-EVENT_LOG_SIZE);
+
+  let target = ordersNamespace.to(rooms);
+  if (except) target = target.except(except);
+  target.emit(event, entry.payload);
+}
+
+function publishOrder(overrides) {
+  const order = createOrder(overrides);
+  state.orders.push(order);
+  const expiresAt = new Date(Date.now() + OFFER_TTL_MS).toISOString();
+  publish(['drivers'], 'newAvailableDelivery', { order, expiresAt });
+  console.log(`[socket] newAvailableDelivery ${order.id}`);
+  return order;
+}
+
+function takeByAnotherDriver(orderId) {
+  const order = findOrder(orderId);
+  if (!order || order.status !== 'PENDING') return;
+  order.status = 'ACCEPTED';
+  order.driverId = 'driver-external';
+  publish(['drivers'], 'deliveryTaken', { orderId });
+  console.log(`[socket] deliveryTaken ${orderId}`);
+}
+
+function setOrderStatus(orderId, status) {
+  const order = findOrder(orderId);
+  if (!order) throw new HttpError(404, 'Pedido não encontrado');
+
+  order.status = status;
+  if (status === 'IN_TRANSIT') order.pickedUpAt = order.pickedUpAt || new Date().toISOString();
+  if (status === 'DELIVERED') {
+    order.deliveredAt = new Date().toISOString();
+    const driver = state.drivers.find((item) => item.id === order.driverId);
+    if (driver) addEarning(driver, order);
+  }
+
+  const rooms = [`order:${orderId}`];
+  if (order.driverId) rooms.push(`driver:${order.driverId}`);
+  publish(rooms, 'orderStatusUpdate', { orderId, status, order });
+  console.log(`[socket] orderStatusUpdate ${orderId} -> ${status}`);
+  return order;
+}
+
+// Context handed to scenarios
+const createContext = () => ({
+  publishOrder,
+  takeByAnotherDriver,
+  setOrderStatus,
+  availableOrders,
+  findActiveOrder: () => state.orders.find((order) => TRANSITIONS[order.status] && order.driverId),
+});
+
+function startScenario(name) {
+  if (stopScenario) stopScenario();
+  stopScenario = runScenario(name, createContext());
+}
+
+// ---------------------------------------------------------------------------
+// REST routes
+// ---------------------------------------------------------------------------
+
+function requireUser(req) {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  const session = match && findSession(match[1]);
+  if (!session) throw new HttpError(401, 'Unauthorized');
+  session.lastActiveAt = new Date().toISOString();
+  return { user: findUser(session.userId), session };
+}
+
+function requireDriver(req) {
+  const { user, session } = requireUser(req);
+  const driver = findDriverByUser(user.id);
+  if (!driver) throw new HttpError(404, 'Entregador não encontrado');
+  return { user, session, driver };
+}
+
+function requireApprovedDriver(req) {
+  const context = requireDriver(req);
+  if (context.driver.status !== 'APPROVED') {
+    throw new HttpError(403, 'Seu cadastro precisa estar aprovado');
+  }
+  return context;
+}
+
+function paginate(items, query) {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const limit = Math.max(1, Number(query.get('limit')) || 20);
+  return {
+    data: items.slice((page - 1) * limit, page * limit),
+    pagination: {
+      total: items.length,
+      page,
+      limit,
+      totalPages: Math.max(1, Math.ceil(items.length / limit)),
+    },
+  };
+}
+
+const sortByDateDesc = (field) => (a, b) => new Date(b[field]) - new Date(a[field]);
+
+// Password-reset tokens issued by /auth/verify-reset-code
+const resetTokens = new Map();
+
+const routes = [
+  // Auth
+  ['POST', /^\/auth\/login$/, (req) => {
+    const user = state.users.find((item) => item.email === req.body.email);
+    if (!user || req.body.password !== PASSWORD) {
+      throw new HttpError(401, 'Email ou senha inválidos');
+    }
+    return authResponse(user, createSession(user, req.headers['user-agent']));
+  }],
+  ['POST', /^\/auth\/refresh$/, (req) => {
+    const session = state.sessions.find((item) => item.refreshToken === req.body.refreshToken);
+    if (!session) {
+      // Unknown or already rotated tokens are just expired; revoked sessions say so
+      if (state.revokedRefreshTokens.includes(req.body.refreshToken)) {
+        throw new HttpError(401, 'Sessão encerrada', 'SESSION_REVOKED');
+      }
+      throw new HttpError(401, 'Sessão expirada');
+    }
+    session.accessToken = newToken('access');
+    session.refreshToken = newToken('refresh');
+    return { accessToken: session.accessToken, refreshToken: session.refreshToken };
+  }],
+  ['POST', /^\/auth\/phone\/request-code$/, () => ({ success: true })],
+  ['POST', /^\/auth\/phone\/verify$/, (req) => {
+    if (req.body.code !== VERIFICATION_CODE) throw new HttpError(400, 'Código inválido');
+    const driver = state.drivers.find((item) => item.phone === req.body.phone);
+    if (!driver) throw new HttpError(404, 'Nenhuma conta com este celular');
+    const user = findUser(driver.userId);
+    return authResponse(user, createSession(user, req.headers['user-agent']));
+  }],
+  ['POST', /^\/auth\/forgot-password$/, () => ({ success: true })],
+  ['POST', /^\/auth\/verify-reset-code$/, (req) => {
+    if (req.body.code !== VERIFICATION_CODE) throw new HttpError(400, 'Código inválido ou expirado');
+    const resetToken = newToken('reset');
+    resetTokens.set(resetToken, req.body.email);
+    return { resetToken };
+  }],
+  ['POST', /^\/auth\/reset-password$/, (req) => {
+    if (!resetTokens.delete(req.body.resetToken)) throw new HttpError(400, 'Token inválido');
+    // Passwords are fixed in the mock; the new one is accepted but not stored
+    return { success: true };
+  }],
+  ['GET', /^\/auth\/sessions$/, (req) => {
+    const { user, session: current } = requireUser(req);
+    return state.sessions
+      .filter((session) => session.userId === user.id)
+      .map(({ accessToken, refreshToken, userId, ...session }) => ({
+        ...session,
+        current: session.id === current.id,
+      }));
+  }],
+  ['DELETE', /^\/auth\/sessions\/others$/, (req) => {
+    const { user, session: current } = requireUser(req);
+    state.sessions
+      .filter((session) => session.userId === user.id && session.id !== current.id)
+      .forEach(revokeSession);
+    return { success: true };
+  }],
+  ['DELETE', /^\/auth\/sessions\/([^/]+)$/, (req, [sessionId]) => {
+    const { user } = requireUser(req);
+    const session = state.sessions.find((item) => item.id === sessionId && item.userId === user.id);
+    if (!session) throw new HttpError(404, 'Sessão não encontrada');
+    revokeSession(session);
+    return { success: true };
+  }],
+
+  // Driver profile
+  ['GET', /^\/drivers\/me$/, (req) => publicDriver(requireDriver(req).driver)],
+  ['POST', /^\/drivers$/, (req) => {
+    const { user } = requireUser(req);
+    if (findDriverByUser(user.id)) throw new HttpError(409, 'Cadastro já realizado');
+    const driver = {
+      id: newToken('driver'),
+      userId: user.id,
+      ...req.body,
+      status: 'PENDING',
+      isOnline: false,
+      rating: 0,
+      totalDeliveries: 0,
+      totalEarnings: 0,
+      statusUpdatedAt: new Date().toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+    state.drivers.push(driver);
+    return publicDriver(driver);
+  }],
+  ['PUT', /^\/drivers\/me$/, (req) => {
+    const { driver } = requireDriver(req);
+    Object.assign(driver, req.body, {
+      status: 'PENDING',
+      rejectionReasons: undefined,
+      statusUpdatedAt: new Date().toISOString(),
+    });
+    return publicDriver(driver);
+  }],
+  ['POST', /^\/drivers\/me\/appeal$/, (req) => {
+    requireDriver(req);
+    return { success: true };
+  }],
+  ['PATCH', /^\/drivers\/status$/, (req) => {
+    const { driver } = requireApprovedDriver(req);
+    driver.isOnline = req.body.isOnline === true;
+    return publicDriver(driver);
+  }],
+  ['PATCH', /^\/drivers\/location$/, (req) => {
+    const { driver } = requireDriver(req);
+    driver.currentLatitude = req.body.latitude;
+    driver.currentLongitude = req.body.longitude;
+    return { success: true };
+  }],
+
+  // Deliveries
+  ['GET', /^\/drivers\/deliveries\/available$/, (req) => {
+    const { driver } = requireApprovedDriver(req);
+    // Orders the driver declined are not offered to them again
+    const declined = new Set(
+      state.declines.filter((item) => item.driverId === driver.id).map((item) => item.orderId)
+    );
+    return availableOrders().filter((order) => !declined.has(order.id));
+  }],
+  ['GET', /^\/drivers\/deliveries\/current$/, (req) => {
+    const { driver } = requireApprovedDriver(req);
+    const order = activeOrderFor(driver.id);
+    if (!order) throw new HttpError(404, 'Nenhuma entrega em andamento');
+    return order;
+  }],
+  ['GET', /^\/drivers\/deliveries\/history$/, (req) => {
+    const { driver } = requireDriver(req);
+    const history = state.orders
+      .filter((order) => order.driverId === driver.id && !TRANSITIONS[order.status])
+      .sort(sortByDateDesc('deliveredAt'));
+    return paginate(history, req.query);
+  }],
+  ['POST', /^\/drivers\/deliveries\/([^/]+)\/accept$/, (req, [orderId]) => {
+    const { driver } = requireApprovedDriver(req);
+    const order = findOrder(orderId);
+    if (!order) throw new HttpError(404, 'Pedido não encontrado');
+    if (order.status !== 'PENDING' || order.driverId) {
+      throw new HttpError(409, 'Esta entrega já foi aceita por outro entregador');
+    }
+    if (activeOrderFor(driver.id)) {
+      throw new HttpError(409, 'Você já tem uma entrega em andamento');
+    }
+
+    // The app's delivery flow starts once the order is with the driver
+    order.driverId = driver.id;
+    order.status = 'PICKED_UP';
+    order.acceptedAt = new Date().toISOString();
+    publish(['drivers'], 'deliveryTaken', { orderId }, `driver:${driver.id}`);
+    return order;
+  }],
+  ['POST', /^\/drivers\/deliveries\/([^/]+)\/decline$/, (req, [orderId]) => {
+    const { driver } = requireApprovedDriver(req);
+    const order = findOrder(orderId);
+    if (!order) throw new HttpError(404, 'Pedido não encontrado');
+    if (!DECLINE_REASONS.includes(req.body.reason)) {
+      throw new HttpError(400, 'Motivo de recusa inválido');
+    }
+
+    state.declines.push({
+      driverId: driver.id,
+      orderId,
+      reason: req.body.reason,
+      note: req.body.note || null,
+      createdAt: new Date().toISOString(),
+    });
+    console.log(`[mock] ${driver.id} declined ${orderId}: ${req.body.reason}`);
+    return { success: true };
+  }],
+  ['PATCH', /^\/orders\/([^/]+)\/status$/, (req, [orderId]) => {
+    const { driver } = requireApprovedDriver(req);
+    const order = findOrder(orderId);
+    if (!order || order.driverId !== driver.id) throw new HttpError(404, 'Pedido não encontrado');
+
+    const allowed = TRANSITIONS[order.status] || [];
+    if (!allowed.includes(req.body.status)) {
+      throw new HttpError(409, `Não é possível mudar de ${order.status} para ${req.body.status}`);
+    }
+    return setOrderStatus(orderId, req.body.status);
+  }],
+
+  // Finance
+  ['GET', /^\/driver-finance\/summary$/, (req) => {
+    const { driver } = requireDriver(req);
+    const earnings = state.earnings.filter((item) => item.driverId === driver.id);
+    const sum = (type) =>
+      earnings
+        .filter((item) => !type || item.type === type)
+        .reduce((total, item) => total + Number(item.amount), 0);
+    const deliveries = earnings.filter((item) => item.type === 'DELIVERY').length;
+    return {
+      totalEarnings: sum(),
+      totalDeliveries: deliveries,
+      totalBonuses: sum('BONUS'),
+      totalTips: sum('TIP'),
+      pendingBalance: sum(),
+      paidOutAmount: 0,
+      averagePerDelivery: deliveries ? sum('DELIVERY') / deliveries : 0,
+    };
+  }],
+  ['GET', /^\/driver-finance\/today$/, (req) => {
+    const { driver } = requireDriver(req);
+    const today = new Date().toISOString().split('T')[0];
+    const earnings = state.earnings.filter(
+      (item) => item.driverId === driver.id && item.createdAt.startsWith(today)
+    );
+    const total = earnings.reduce((sum, item) => sum + Number(item.amount), 0);
+    const deliveryCount = earnings.filter((item) => item.type === 'DELIVERY').length;
+    return {
+      date: today,
+      earnings,
+      summary: {
+        total,
+        deliveryCount,
+        averagePerDelivery: deliveryCount ? total / deliveryCount : 0,
+      },
+    };
+  }],
+  ['GET', /^\/driver-finance\/earnings$/, (req) => {
+    const { driver } = requireDriver(req);
+    const earnings = state.earnings
+      .filter((item) => item.driverId === driver.id)
+      .sort(sortByDateDesc('createdAt'));
+    return paginate(earnings, req.query);
+  }],
+
+  // Mock controls
+  ['GET', /^\/__mock\/scenarios$/, () =>
+    Object.entries(scenarios).map(([name, scenario]) => ({ name, description: scenario.description })),
+  ],
+  ['POST', /^\/__mock\/scenario$/, (req) => {
+    if (!scenarios[req.body.name]) throw new HttpError(404, `Cenário desconhecido: ${req.body.name}`);
+    startScenario(req.body.name);
+    return { success: true };
+  }],
+  ['POST', /^\/__mock\/orders$/, (req) => publishOrder(req.body)],
+  ['POST', /^\/__mock\/orders\/([^/]+)\/status$/, (req, [orderId]) =>
+    setOrderStatus(orderId, req.body.status),
+  ],
+  ['POST', /^\/__mock\/reset$/, () => {
+    if (stopScenario) stopScenario();
+    stopScenario = null;
+    state = createFixtures();
+    idempotentResponses = new Map();
+    eventLog = [];
+    return { success: true };
+  }],
+];
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(new HttpError(400, 'JSON inválido'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+async function handleRequest(req, res) {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (!url.pathname.startsWith(API_PREFIX)) {
+    send(res, 404, { statusCode: 404, message: 'Not Found' });
+    return;
+  }
+  const path = url.pathname.slice(API_PREFIX.length);
+
+  try {
+    const route = routes.find(([method, pattern]) => method === req.method && pattern.test(path));
+    if (!route) throw new HttpError(404, `Cannot ${req.method} ${path}`);
+
+    req.body = await readBody(req);
+    req.query = url.searchParams;
+
+    // Replays of an already applied request get the original response back
+    const idempotencyKey = req.headers['idempotency-key'];
+    if (idempotencyKey && idempotentResponses.has(idempotencyKey)) {
+      send(res, 200, idempotentResponses.get(idempotencyKey));
+      return;
+    }
+
+    const [, pattern, handler] = route;
+    const body = handler(req, pattern.exec(path).slice(1));
+    if (idempotencyKey) idempotentResponses.set(idempotencyKey, body);
+
+    console.log(`${req.method} ${path} 200`);
+    send(res, 200, body);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    console.log(`${req.method} ${path} ${status}`);
+    send(res, status, { statusCode: status, message: error.message, code: error.code });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// /orders namespace
+// ---------------------------------------------------------------------------
+
+// A token is optional, but when one is sent it must belong to a live session
+ordersNamespace.use((socket, next) => {
+  const token = socket.handshake.auth && socket.handshake.auth.token;
+  if (!token) return next();
+
+  const session = findSession(token);
+  if (!session) return next(new Error('Unauthorized: invalid token'));
+  socket.data.session = session;
+  socket.join(`session:${session.id}`);
+  next();
+});
+
+ordersNamespace.on('connection', (socket) => {
+  console.log(`[socket] connected ${socket.id}`);
+
+  const joinDriver = (driverId) => {
+    socket.data.driverId = driverId;
+    socket.join(['drivers', `driver:${driverId}`]);
+  };
+
+  socket.on('joinDriver', (driverId) => {
+    console.log(`[socket] joinDriver ${driverId}`);
+    joinDriver(driverId);
+  });
+
+  socket.on('driverConnect', (driverId) => {
+    console.log(`[socket] driverConnect ${driverId}`);
+    joinDriver(driverId);
+  });
+
+  socket.on('joinOrder', (orderId) => {
+    socket.join(`order:${orderId}`);
+  });
+
+  // Resends logged events newer than the last one the app saw, for the rooms
+  // this socket is in. Ids from before a restart are simply unknown.
+  socket.on('replayEvents', (data) => {
+    const since = Number(data && data.lastEventId);
+    if (!Number.isFinite(since)) return;
+
+    const missed = eventLog.filter(
+      (entry) =>
+        Number(entry.payload.eventId) > since &&
+        entry.rooms.some((room) => socket.rooms.has(room)) &&
+        !(entry.except && socket.rooms.has(entry.except))
+    );
+    console.log(`[socket] replayEvents since ${since}: ${missed.length}`);
+    missed.forEach((entry) => socket.emit(entry.event, entry.payload));
+  });
+
+  socket.on('updateLocation', (data) => {
+    const driver = state.drivers.find((item) => item.id === data.driverId);
+    if (!driver) return;
+    driver.currentLatitude = data.latitude;
+    driver.currentLongitude = data.longitude;
+    // Customers following the order get the position; the sending driver doesn't
+    if (data.orderId) {
+      socket.to(`order:${data.orderId}`).emit('driverLocation', data);
+    }
+  });
+
+  socket.on('disconnect', () => {
+    console.log(`[socket] disconnected ${socket.id}`);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock backend listening on http://localhost:${PORT}${API_PREFIX}`);
+
+  const scenarioArg = process.argv.find((arg) => arg.startsWith('--scenario='));
+  const scenarioName = scenarioArg ? scenarioArg.split('=')[1] : process.env.MOCK_SCENARIO;
+  if (scenarioName) startScenario(scenarioName);
+});
@@ -0,0 +1,92 @@
+// Scriptable scenarios for the mock backend. A scenario is a list of steps run
+// in order; each step waits `after` ms and then calls `run` with the server
+// context (see createContext in index.js). Add new ones here and start them with
+// `npm run mock-server -- --scenario=<name>` or POST /api/__mock/scenario.
+
+const scenarios = {
+  // No scripted events; only the seeded orders are available
+  quiet: {
+    description: 'Apenas os pedidos iniciais',
+    steps: [],
+  },
+
+  // A new order every 20s; every other one is taken by another driver shortly after
+  'lunch-rush': {
+    description: 'Novos pedidos a cada 20s, alguns aceitos por outros entregadores',
+    repeat: true,
+    steps: [
+      { after: 20000, run: (ctx) => ctx.publishOrder() },
+      {
+        after: 20000,
+        run: (ctx) => {
+          const order = ctx.publishOrder();
+          setTimeout(() => ctx.takeByAnotherDriver(order.id), 8000);
+        },
+      },
+    ],
+  },
+
+  // Whatever delivery the driver is doing gets cancelled by the customer
+  'customer-cancels': {
+    description: 'O cliente cancela a entrega em andamento após 30s',
+    steps: [
+      {
+        after: 30000,
+        run: (ctx) => {
+          const order = ctx.findActiveOrder();
+          if (order) ctx.setOrderStatus(order.id, 'CANCELLED');
+        },
+      },
+    ],
+  },
+
+  // Every seeded order disappears, then a single one shows up
+  'taken-elsewhere': {
+    description: 'Todos os pedidos disponíveis são aceitos por outros entregadores',
+    steps: [
+      {
+        after: 5000,
+        run: (ctx) => ctx.availableOrders().forEach((order) => ctx.takeByAnotherDriver(order.id)),
+      },
+      { after: 15000, run: (ctx) => ctx.publishOrder() },
+    ],
+  },
+};
+
+function runScenario(name, ctx) {
+  const scenario = scenarios[name];
+  if (!scenario) {
+    throw new Error(`Unknown scenario "${name}". Available: ${Object.keys(scenarios).join(', ')}`);
+  }
+
+  let timer = null;
+  let stopped = false;
+
+  const runStep = (index) => {
+    if (stopped) return;
+    if (index >= scenario.steps.length) {
+      if (scenario.repeat && scenario.steps.length > 0) runStep(0);
+      return;
+    }
+
+    const step = scenario.steps[index];
+    timer = setTimeout(() => {
+      try {
+        step.run(ctx);
+      } catch (error) {
+        console.error(`[scenario:${name}] step ${index} failed:`, error);
+      }
+      runStep(index + 1);
+    }, step.after);
+  };
+
+  console.log(`[scenario] running "${name}": ${scenario.description}`);
+  runStep(0);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+module.exports = { scenarios, runScenario };
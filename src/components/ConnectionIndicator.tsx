@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Navigation, Radio, Server } from 'lucide-react-native';
+import { ConnectionDiagnostics, GpsState } from '../services/diagnostics';
+import { SocketConnectionState } from '../services/ordersSocket';
+
+export type ConnectionHealth = 'ok' | 'degraded' | 'down' | 'idle';
+
+export const HEALTH_COLORS: Record<ConnectionHealth, string> = {
+  ok: '#16A34A',
+  degraded: '#B45309',
+  down: '#DC2626',
+  idle: '#999',
+};
+
+export const SOCKET_STATE_LABELS: Record<SocketConnectionState, string> = {
+  connected: 'Conectado',
+  connecting: 'Conectando...',
+  disconnected: 'Desconectado',
+};
+
+export const GPS_STATE_LABELS: Record<GpsState, string> = {
+  off: 'Desligado',
+  tracking: 'Ativo',
+  denied: 'Permissão negada',
+  unavailable: 'Indisponível',
+  error: 'Erro ao obter localização',
+};
+
+export const getRestHealth = ({ rest }: ConnectionDiagnostics): ConnectionHealth =>
+  rest.reachable === null ? 'idle' : rest.reachable ? 'ok' : 'down';
+
+export const getSocketHealth = ({ socket }: ConnectionDiagnostics): ConnectionHealth =>
+  socket.state === 'connected' ? 'ok' : socket.state === 'connecting' ? 'degraded' : 'down';
+
+export const getGpsHealth = ({ gps }: ConnectionDiagnostics): ConnectionHealth =>
+  gps.state === 'tracking' ? 'ok' : gps.state === 'off' ? 'idle' : 'down';
+
+export const formatElapsed = (at: number) => {
+  const seconds = Math.max(Math.floor((Date.now() - at) / 1000), 0);
+  if (seconds < 60) return `há ${seconds}s`;
+  if (seconds < 3600) return `há ${Math.floor(seconds / 60)} min`;
+  return `há ${Math.floor(seconds / 3600)} h`;
+};
+
+const TICK_MS = 5 * 1000;
+
+interface ConnectionIndicatorProps {
+  diagnostics: ConnectionDiagnostics;
+  onPress: () => void;
+}
+
+export function ConnectionIndicator({ diagnostics, onPress }: ConnectionIndicatorProps) {
+  const [, setTick] = useState(0);
+  const { lastLocationSentAt } = diagnostics.gps;
+
+  // Keep "último envio" current between location updates
+  useEffect(() => {
+    if (!lastLocationSentAt) return;
+    const interval = setInterval(() => setTick((tick) => tick + 1), TICK_MS);
+    return () => clearInterval(interval);
+  }, [lastLocationSentAt]);
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={onPress}>
+      <Server size={14} color={HEALTH_COLORS[getRestHealth(diagnostics)]} />
+      <Radio size={14} color={HEALTH_COLORS[getSocketHealth(diagnostics)]} />
+      <Navigation size={14} color={HEALTH_COLORS[getGpsHealth(diagnostics)]} />
+      <View style={styles.separator} />
+      <Text style={styles.lastSent}>
+        {lastLocationSentAt
+          ? `Último envio ${formatElapsed(lastLocationSentAt)}`
+          : 'Nenhuma localização enviada'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f5f5f5',
+  },
+  separator: {
+    width: 1,
+    height: 12,
+    backgroundColor: '#ddd',
+  },
+  lastSent: {
+    fontSize: 11,
+    color: '#666',
+  },
+});
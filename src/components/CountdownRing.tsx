@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+
+interface CountdownRingProps {
+  // Fraction of the time still left, from 1 (full) to 0
+  progress: number;
+  secondsLeft: number;
+  size?: number;
+  strokeWidth?: number;
+}
+
+export function CountdownRing({
+  progress,
+  secondsLeft,
+  size = 96,
+  strokeWidth = 8,
+}: CountdownRingProps) {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(Math.max(progress, 0), 1);
+  // Turns red for the last few seconds
+  const color = secondsLeft <= 5 ? '#DC2626' : '#F97316';
+
+  return (
+    <View style={{ width: size, height: size }}>
+      <Svg width={size} height={size}>
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke="#FED7AA"
+          strokeWidth={strokeWidth}
+          fill="none"
+        />
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          fill="none"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - clamped)}
+          // Start at 12 o'clock and run clockwise
+          transform={`rotate(-90 ${size / 2} ${size / 2})`}
+        />
+      </Svg>
+      <View style={styles.label}>
+        <Text style={[styles.seconds, { color }]}>{secondsLeft}</Text>
+        <Text style={styles.unit}>seg</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  seconds: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  unit: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
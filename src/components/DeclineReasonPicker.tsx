@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { DeclineReason } from '../types';
+
+export const DECLINE_REASONS: { value: DeclineReason; label: string }[] = [
+  { value: 'TOO_FAR', label: 'Muito longe' },
+  { value: 'LOW_FEE', label: 'Valor baixo' },
+  { value: 'WRONG_VEHICLE', label: 'Não é adequada ao meu veículo' },
+  { value: 'OTHER', label: 'Outro motivo' },
+];
+
+interface DeclineReasonPickerProps {
+  onSubmit: (reason: DeclineReason, note?: string) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+// Reason list used inline (inside the offer modal) and as a bottom sheet
+export function DeclineReasonPicker({
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}: DeclineReasonPickerProps) {
+  const [isOther, setIsOther] = useState(false);
+  const [note, setNote] = useState('');
+
+  const handleSelect = (reason: DeclineReason) => {
+    // "Outro motivo" asks for a short description first
+    if (reason === 'OTHER') {
+      setIsOther(true);
+      return;
+    }
+    onSubmit(reason);
+  };
+
+  return (
+    <View style={styles.picker}>
+      <Text style={styles.title}>Por que você está recusando?</Text>
+
+      {isOther ? (
+        <>
+          <TextInput
+            style={styles.noteInput}
+            placeholder="Conte o motivo (opcional)"
+            placeholderTextColor="#999"
+            value={note}
+            onChangeText={setNote}
+            maxLength={200}
+            multiline
+            autoFocus
+          />
+          <TouchableOpacity
+            style={[styles.confirmButton, isSubmitting && styles.buttonDisabled]}
+            onPress={() => onSubmit('OTHER', note.trim() || undefined)}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.confirmButtonText}>Recusar entrega</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      ) : (
+        DECLINE_REASONS.map((reason) => (
+          <TouchableOpacity
+            key={reason.value}
+            style={styles.reasonButton}
+            onPress={() => handleSelect(reason.value)}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.reasonText}>{reason.label}</Text>
+          </TouchableOpacity>
+        ))
+      )}
+
+      <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={isSubmitting}>
+        <Text style={styles.cancelButtonText}>Voltar</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+interface DeclineReasonModalProps extends DeclineReasonPickerProps {
+  visible: boolean;
+}
+
+// The picker unmounts while hidden, so each opening starts from the reason list
+export function DeclineReasonModal({ visible, ...pickerProps }: DeclineReasonModalProps) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={pickerProps.onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <DeclineReasonPicker {...pickerProps} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  picker: {
+    gap: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 6,
+  },
+  reasonButton: {
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 10,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    backgroundColor: '#fff',
+  },
+  reasonText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    padding: 12,
+    minHeight: 80,
+    fontSize: 15,
+    color: '#333',
+    textAlignVertical: 'top',
+    backgroundColor: '#fff',
+  },
+  confirmButton: {
+    backgroundColor: '#DC2626',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 15,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 32,
+  },
+});
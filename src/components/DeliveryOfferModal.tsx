@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Clock, Home, MapPin, Navigation } from 'lucide-react-native';
+import { CountdownRing } from './CountdownRing';
+import { DeclineReasonPicker } from './DeclineReasonPicker';
+import { DeclineReason, DeliveryOffer } from '../types';
+
+interface DeliveryOfferModalProps {
+  offer: DeliveryOffer | null;
+  onAccept: (offer: DeliveryOffer) => void;
+  onDecline: (offer: DeliveryOffer, reason: DeclineReason, note?: string) => void;
+  onExpire: (offer: DeliveryOffer) => void;
+  isDeclining?: boolean;
+}
+
+const TICK_MS = 250;
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function DeliveryOfferModal({
+  offer,
+  onAccept,
+  onDecline,
+  onExpire,
+  isDeclining,
+}: DeliveryOfferModalProps) {
+  const [now, setNow] = useState(Date.now);
+  const [isChoosingReason, setIsChoosingReason] = useState(false);
+  // The ring shows the time left out of what the driver had when the offer appeared
+  const shownAtRef = useRef(Date.now());
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (!offer) return;
+    shownAtRef.current = Date.now();
+    setNow(Date.now());
+    setIsChoosingReason(false);
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= offer.expiresAt) {
+        clearInterval(interval);
+        onExpireRef.current(offer);
+      }
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [offer]);
+
+  if (!offer) return null;
+
+  const { delivery } = offer;
+  const total = Math.max(offer.expiresAt - shownAtRef.current, 1);
+  const remaining = Math.max(offer.expiresAt - now, 0);
+
+  return (
+    <Modal visible animationType="slide" onRequestClose={() => setIsChoosingReason(true)}>
+      <View style={styles.container}>
+        <Text style={styles.title}>Nova entrega disponível</Text>
+
+        <View style={styles.countdown}>
+          <CountdownRing progress={remaining / total} secondsLeft={Math.ceil(remaining / 1000)} />
+        </View>
+
+        {isChoosingReason ? (
+          // The countdown keeps running while the driver picks a reason
+          <DeclineReasonPicker
+            onSubmit={(reason, note) => onDecline(offer, reason, note)}
+            onCancel={() => setIsChoosingReason(false)}
+            isSubmitting={isDeclining}
+          />
+        ) : (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.restaurantName}>{delivery.restaurant.name}</Text>
+              <Text style={styles.deliveryFee}>{formatCurrency(delivery.deliveryFee)}</Text>
+
+              <View style={styles.metrics}>
+                <View style={styles.metric}>
+                  <Navigation size={18} color="#F97316" />
+                  <Text style={styles.metricValue}>
+                    {delivery.estimatedDistance !== undefined
+                      ? `${delivery.estimatedDistance.toFixed(1)} km`
+                      : '--'}
+                  </Text>
+                </View>
+                <View style={styles.metric}>
+                  <Clock size={18} color="#F97316" />
+                  <Text style={styles.metricValue}>
+                    {delivery.estimatedTime !== undefined ? `${delivery.estimatedTime} min` : '--'}
+                  </Text>
+                </View>
+              </View>
+
+              {!!delivery.restaurant.neighborhood && (
+                <View style={styles.addressRow}>
+                  <MapPin size={16} color="#F97316" />
+                  <Text style={styles.addressText} numberOfLines={1}>
+                    Retirada: {delivery.restaurant.neighborhood}
+                  </Text>
+                </View>
+              )}
+              {delivery.deliveryAddress && (
+                <View style={styles.addressRow}>
+                  <Home size={16} color="#16A34A" />
+                  <Text style={styles.addressText} numberOfLines={1}>
+                    Entrega: {delivery.deliveryAddress.neighborhood}
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.declineButton}
+                onPress={() => setIsChoosingReason(true)}
+              >
+                <Text style={styles.declineButtonText}>Recusar</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.acceptButton} onPress={() => onAccept(offer)}>
+                <Text style={styles.acceptButtonText}>Aceitar</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF7ED',
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    textAlign: 'center',
+  },
+  countdown: {
+    alignItems: 'center',
+    marginVertical: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  restaurantName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  deliveryFee: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#22C55E',
+    marginTop: 4,
+  },
+  metrics: {
+    flexDirection: 'row',
+    gap: 24,
+    marginVertical: 16,
+  },
+  metric: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  metricValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  addressText: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 32,
+  },
+  declineButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#DC2626',
+    backgroundColor: '#fff',
+  },
+  declineButtonText: {
+    color: '#DC2626',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  acceptButton: {
+    flex: 2,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#F97316',
+  },
+  acceptButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
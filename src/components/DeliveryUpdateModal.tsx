@@ -0,0 +1,131 @@
+import React from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { CheckCircle, RefreshCw, UserX, XCircle } from 'lucide-react-native';
+import { DeliveryUpdateNotice } from '../types';
+
+interface DeliveryUpdateModalProps {
+  notice: DeliveryUpdateNotice | null;
+  onDismiss: (notice: DeliveryUpdateNotice) => void;
+}
+
+const NOTICE_CONTENT = {
+  cancelled: {
+    Icon: XCircle,
+    color: '#DC2626',
+    background: '#FEF2F2',
+    title: 'Pedido cancelado',
+    message: 'Este pedido foi cancelado. Não é preciso continuar a entrega.',
+    action: 'Voltar ao início',
+  },
+  completed: {
+    Icon: CheckCircle,
+    color: '#16A34A',
+    background: '#F0FDF4',
+    title: 'Entrega encerrada',
+    message: 'Este pedido foi finalizado pelo restaurante ou pelo suporte.',
+    action: 'Voltar ao início',
+  },
+  unassigned: {
+    Icon: UserX,
+    color: '#B45309',
+    background: '#FFFBEB',
+    title: 'Entrega indisponível',
+    message: 'Este pedido não está mais atribuído a você.',
+    action: 'Voltar ao início',
+  },
+  changed: {
+    Icon: RefreshCw,
+    color: '#F97316',
+    background: '#FFF7ED',
+    title: 'Pedido atualizado',
+    message: 'O cliente ou o restaurante alterou este pedido:',
+    action: 'Entendi',
+  },
+};
+
+// Blocks the delivery screen until the driver acknowledges the change
+export function DeliveryUpdateModal({ notice, onDismiss }: DeliveryUpdateModalProps) {
+  if (!notice) return null;
+
+  const content = NOTICE_CONTENT[notice.type];
+  const { Icon } = content;
+
+  return (
+    <Modal visible animationType="fade" onRequestClose={() => onDismiss(notice)}>
+      <View style={[styles.container, { backgroundColor: content.background }]}>
+        <View style={styles.body}>
+          <Icon size={72} color={content.color} />
+          <Text style={[styles.title, { color: content.color }]}>{content.title}</Text>
+          <Text style={styles.message}>{content.message}</Text>
+
+          {notice.changes.length > 0 && (
+            <ScrollView style={styles.changes} contentContainerStyle={styles.changesContent}>
+              {notice.changes.map((change) => (
+                <Text key={change} style={styles.change}>
+                  • {change}
+                </Text>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: content.color }]}
+          onPress={() => onDismiss(notice)}
+        >
+          <Text style={styles.buttonText}>{content.action}</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 24,
+    paddingTop: 80,
+    paddingBottom: 40,
+    justifyContent: 'space-between',
+  },
+  body: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#333',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  changes: {
+    alignSelf: 'stretch',
+    marginTop: 24,
+  },
+  changesContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  },
+  change: {
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  button: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { Text, StyleSheet, TextStyle, StyleProp } from 'react-native';
+
+interface LastUpdatedHintProps {
+  updatedAt: number | null;
+  isRefreshing?: boolean;
+  style?: StyleProp<TextStyle>;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const formatElapsed = (updatedAt: number) => {
+  const elapsed = Date.now() - updatedAt;
+  if (elapsed < MINUTE) return 'Atualizado agora';
+  if (elapsed < HOUR) return `Atualizado há ${Math.floor(elapsed / MINUTE)} min`;
+  if (elapsed < 24 * HOUR) return `Atualizado há ${Math.floor(elapsed / HOUR)} h`;
+  return `Atualizado em ${new Date(updatedAt).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })}`;
+};
+
+export function LastUpdatedHint({ updatedAt, isRefreshing, style }: LastUpdatedHintProps) {
+  const [, setTick] = useState(0);
+
+  // Keep the relative time current while the screen stays open
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), MINUTE);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!updatedAt) return null;
+
+  return (
+    <Text style={[styles.hint, style]}>
+      {formatElapsed(updatedAt)}
+      {isRefreshing ? ' · atualizando...' : ''}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Signal for requests started by a screen; they are cancelled when it unmounts.
+// Pass getSignal() to the driverApi call and ignore isRequestCancelled errors.
+export function useAbortSignal() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, []);
+
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+}
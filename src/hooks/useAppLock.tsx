@@ -0,0 +1,160 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { credentialStore } from '../services/credentialStore';
+import { AppLockConfig } from '../types';
+import { useAuth } from './useAuth';
+
+export const MAX_PIN_ATTEMPTS = 5;
+
+export const LOCK_TIMEOUT_OPTIONS = [
+  { label: 'Imediatamente', value: 0 },
+  { label: '1 minuto', value: 60 * 1000 },
+  { label: '5 minutos', value: 5 * 60 * 1000 },
+  { label: '15 minutos', value: 15 * 60 * 1000 },
+];
+
+interface AppLockContextType {
+  isEnabled: boolean;
+  isLocked: boolean;
+  // The stored PIN is still being read; nothing protected may show meanwhile
+  isChecking: boolean;
+  timeoutMs: number;
+  remainingAttempts: number;
+  enableLock: (pin: string, timeoutMs: number) => Promise<void>;
+  disableLock: () => Promise<void>;
+  setLockTimeout: (timeoutMs: number) => Promise<void>;
+  unlock: (pin: string) => Promise<boolean>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+export function AppLockProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated, logout } = useAuth();
+  const [config, setConfig] = useState<AppLockConfig | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+
+  // Load the stored PIN whenever the session changes; lock on cold start
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setConfig(null);
+      setIsLocked(false);
+      setIsLoaded(false);
+      return;
+    }
+
+    credentialStore
+      .getAppLock()
+      .catch((error) => {
+        console.error('Error loading app lock:', error);
+        return null;
+      })
+      .then((storedConfig) => {
+        setConfig(storedConfig);
+        setIsLocked(!!storedConfig);
+        setIsLoaded(true);
+      });
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!config) return;
+
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (nextState === 'active' && backgroundedAt.current !== null) {
+        const elapsed = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        if (elapsed >= config.timeoutMs) {
+          setIsLocked(true);
+        }
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [config]);
+
+  const saveConfig = async (newConfig: AppLockConfig) => {
+    await credentialStore.setAppLock(newConfig);
+    setConfig(newConfig);
+  };
+
+  const enableLock = async (pin: string, timeoutMs: number) => {
+    if (!/^\d{4,6}$/.test(pin)) {
+      throw new Error('O PIN deve ter de 4 a 6 dígitos');
+    }
+
+    const salt = Crypto.randomUUID();
+    await saveConfig({
+      pinHash: await hashPin(pin, salt),
+      salt,
+      timeoutMs,
+      failedAttempts: 0,
+    });
+  };
+
+  const disableLock = async () => {
+    await credentialStore.clearAppLock();
+    setConfig(null);
+    setIsLocked(false);
+  };
+
+  const setLockTimeout = async (timeoutMs: number) => {
+    if (!config) return;
+    await saveConfig({ ...config, timeoutMs });
+  };
+
+  const unlock = useCallback(async (pin: string) => {
+    if (!config) return true;
+
+    if ((await hashPin(pin, config.salt)) === config.pinHash) {
+      await saveConfig({ ...config, failedAttempts: 0 });
+      setIsLocked(false);
+      return true;
+    }
+
+    const failedAttempts = config.failedAttempts + 1;
+    if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+      // Too many wrong attempts - end the session (this also removes the PIN)
+      console.log('Too many wrong PIN attempts, logging out');
+      await logout();
+      return false;
+    }
+
+    // Persist the counter so restarting the app does not reset the attempts
+    await saveConfig({ ...config, failedAttempts });
+    return false;
+  }, [config, logout]);
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        isEnabled: !!config,
+        isLocked: isAuthenticated && isLocked,
+        isChecking: isAuthenticated && !isLoaded,
+        timeoutMs: config?.timeoutMs ?? LOCK_TIMEOUT_OPTIONS[1].value,
+        remainingAttempts: MAX_PIN_ATTEMPTS - (config?.failedAttempts ?? 0),
+        enableLock,
+        disableLock,
+        setLockTimeout,
+        unlock,
+      }}
+    >
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
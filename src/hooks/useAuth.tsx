@@ -1,16 +1,36 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import api from '../services/api';
-import { User, Driver } from '../types';
+import { authApi, driversApi } from '../services/driverApi';
+import { credentialStore } from '../services/credentialStore';
+import { onSessionExpired, SessionExpiredReason } from '../services/authEvents';
+import { isApiError } from '../services/apiErrors';
+import { endShift, startShift } from '../services/shiftStats';
+import { clearOutbox } from '../services/statusOutbox';
+import {
+  matchesQueryKey,
+  onCacheInvalidated,
+  QUERY_KEYS,
+  queryCache,
+} from '../services/queryCache';
+import { User, Driver, DriverRegistrationData, AuthResponse } from '../types';
 
 interface AuthContextType {
   user: User | null;
   driver: Driver | null;
   isLoading: boolean;
+  // The saved session is kept but the profile could not be fetched (offline on a first start)
+  profileLoadFailed: boolean;
+  retryLoadAuth: () => Promise<void>;
   isAuthenticated: boolean;
   isOnline: boolean;
+  sessionExpiredReason: SessionExpiredReason | null;
   login: (email: string, password: string) => Promise<void>;
+  requestPhoneCode: (phone: string) => Promise<void>;
+  loginWithPhone: (phone: string, code: string) => Promise<void>;
   logout: () => Promise<void>;
+  registerDriver: (data: DriverRegistrationData) => Promise<void>;
+  resubmitDriver: (data: DriverRegistrationData) => Promise<void>;
+  submitAppeal: (message: string) => Promise<void>;
+  refreshDriver: () => Promise<void>;
   toggleOnline: () => Promise<void>;
   updateLocation: (latitude: number, longitude: number) => Promise<void>;
 }
@@ -22,38 +42,84 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [driver, setDriver] = useState<Driver | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isOnline, setIsOnline] = useState(false);
+  const [profileLoadFailed, setProfileLoadFailed] = useState(false);
+  const [sessionExpiredReason, setSessionExpiredReason] = useState<SessionExpiredReason | null>(null);
 
-  // Clear auth state (called on 401 errors)
+  // Single teardown for logout and expired sessions: stored data, shift and state
   const clearAuth = useCallback(async () => {
-    await AsyncStorage.multiRemove(['token', 'refreshToken', 'user']);
+    await credentialStore.clear();
+    await queryCache.clear();
+    await clearOutbox();
+    await endShift();
     setUser(null);
     setDriver(null);
     setIsOnline(false);
+    setProfileLoadFailed(false);
   }, []);
 
   useEffect(() => {
     loadStoredAuth();
   }, []);
 
+  // Reset context state when the API client or a socket reports an expired session
+  useEffect(() => {
+    return onSessionExpired((reason) => {
+      console.log('Session expired:', reason);
+      // Socket-originated expiries have not cleared the stored credentials yet
+      setSessionExpiredReason(reason);
+      clearAuth().catch((error) => console.error('Error clearing expired session:', error));
+    });
+  }, [clearAuth]);
+
+  // Every profile coming from the server is also kept for the next cold start,
+  // in the credential store since it carries CPF and phone
+  const applyDriver = (driverProfile: Driver | null) => {
+    setDriver(driverProfile);
+    setIsOnline(driverProfile?.isOnline || false);
+    credentialStore
+      .setDriverProfile(driverProfile)
+      .catch((error) => console.error('Error saving driver profile:', error));
+  };
+
+  const isAuthenticated = !!user;
+
   const loadStoredAuth = async () => {
+    setProfileLoadFailed(false);
     try {
-      const [token, storedUser] = await Promise.all([
-        AsyncStorage.getItem('token'),
-        AsyncStorage.getItem('user'),
+      const [token, storedUser, cachedDriver] = await Promise.all([
+        credentialStore.getAccessToken(),
+        credentialStore.getUser(),
+        credentialStore.getDriverProfile(),
       ]);
 
       if (token && storedUser) {
+        // Show the cached profile right away and revalidate it below
+        if (cachedDriver) {
+          setUser(storedUser);
+          setDriver(cachedDriver);
+          setIsOnline(cachedDriver.isOnline);
+          setIsLoading(false);
+        }
+
         // Validate token by fetching driver profile
+        // A null profile means the user still has to complete onboarding
         try {
-          const response = await api.get('/drivers/me');
-          const parsedUser = JSON.parse(storedUser);
-          setUser(parsedUser);
-          setDriver(response.data);
-          setIsOnline(response.data.isOnline);
-        } catch (error: any) {
-          // Token is invalid or expired - clear everything
-          console.log('Token invalid, clearing auth');
-          await clearAuth();
+          const driverProfile = await driversApi.getMe();
+          setUser(storedUser);
+          applyDriver(driverProfile);
+        } catch (error) {
+          if (isApiError(error, 'auth')) {
+            // Token is invalid or the session was revoked - clear everything
+            console.log('Token invalid, clearing auth');
+            await clearAuth();
+          } else if (cachedDriver) {
+            // Without signal the cached profile is still good enough to start with
+            console.log('Could not revalidate profile, using cached copy');
+          } else {
+            // Keep the session; the user can retry once the server is reachable
+            console.error('Could not load profile:', error);
+            setProfileLoadFailed(true);
+          }
         }
       }
     } catch (error) {
@@ -64,50 +130,100 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (email: string, password: string) => {
-    const response = await api.post('/auth/login', { email, password });
-    const { accessToken, refreshToken, user: userData } = response.data;
-
+  // Shared by every login method: all of them return the same token payload
+  const completeLogin = async ({ accessToken, refreshToken, user: userData }: AuthResponse) => {
     if (userData.role !== 'DRIVER') {
       throw new Error('Esta conta não é de entregador');
     }
 
-    await AsyncStorage.setItem('token', accessToken);
-    await AsyncStorage.setItem('refreshToken', refreshToken);
-    await AsyncStorage.setItem('user', JSON.stringify(userData));
+    await credentialStore.setTokens(accessToken, refreshToken);
 
-    setUser(userData);
-
-    // Fetch driver profile
+    // The profile decides which stack is shown, so it must be loaded before the
+    // user is set. Only a missing profile (null) means onboarding; any other
+    // failure is the login's, otherwise an approved driver would land there.
+    let driverProfile: Driver | null;
     try {
-      const driverResponse = await api.get('/drivers/me');
-      setDriver(driverResponse.data);
-      setIsOnline(driverResponse.data.isOnline || false);
-    } catch (driverError: any) {
-      // Driver profile might not exist yet
-      console.log('Driver profile not found, user may need to complete registration');
-      setDriver(null);
-      setIsOnline(false);
+      driverProfile = await driversApi.getMe();
+    } catch (driverError) {
+      console.error('Error fetching driver profile:', driverError);
+      await credentialStore.clear();
+      throw driverError;
+    }
+    if (!driverProfile) {
+      console.log('Driver profile not found, user needs to complete registration');
     }
+
+    await credentialStore.setUser(userData);
+    applyDriver(driverProfile);
+    setUser(userData);
+    setSessionExpiredReason(null);
+  };
+
+  const login = async (email: string, password: string) => {
+    await completeLogin(await authApi.login(email, password));
+  };
+
+  const requestPhoneCode = async (phone: string) => {
+    await authApi.requestPhoneCode(phone);
+  };
+
+  const loginWithPhone = async (phone: string, code: string) => {
+    await completeLogin(await authApi.verifyPhoneCode(phone, code));
   };
 
   const logout = useCallback(async () => {
     await clearAuth();
+    setSessionExpiredReason(null);
   }, [clearAuth]);
 
-  const toggleOnline = async () => {
-    const response = await api.patch('/drivers/status', {
-      isOnline: !isOnline,
+  const retryLoadAuth = async () => {
+    setIsLoading(true);
+    await loadStoredAuth();
+  };
+
+  const registerDriver = async (data: DriverRegistrationData) => {
+    applyDriver(await driversApi.register(data));
+  };
+
+  // Rejected drivers correct their data and send it back for review
+  const resubmitDriver = async (data: DriverRegistrationData) => {
+    applyDriver(await driversApi.resubmit(data));
+  };
+
+  const submitAppeal = async (message: string) => {
+    await driversApi.submitAppeal(message);
+  };
+
+  const refreshDriver = useCallback(async () => {
+    applyDriver(await driversApi.getMe());
+  }, []);
+
+  // Stale profile (e.g. totals after a delivery) - fetch it again in the background
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    return onCacheInvalidated((prefixes) => {
+      if (matchesQueryKey(QUERY_KEYS.driverProfile, prefixes)) {
+        refreshDriver().catch((error) => console.error('Error refreshing driver:', error));
+      }
     });
-    setIsOnline(response.data.isOnline);
-    setDriver(response.data);
+  }, [isAuthenticated, refreshDriver]);
+
+  const toggleOnline = async () => {
+    if (driver?.status !== 'APPROVED') {
+      throw new Error('Seu cadastro precisa estar aprovado para ficar online');
+    }
+
+    const profile = await driversApi.updateStatus(!isOnline);
+    applyDriver(profile);
+    await (profile.isOnline ? startShift() : endShift());
   };
 
   const updateLocation = async (latitude: number, longitude: number) => {
     if (!isOnline) return;
 
     try {
-      await api.patch('/drivers/location', { latitude, longitude });
+      await driversApi.updateLocation(latitude, longitude);
     } catch (error) {
       console.error('Error updating location:', error);
     }
@@ -119,10 +235,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         driver,
         isLoading,
-        isAuthenticated: !!user,
+        profileLoadFailed,
+        retryLoadAuth,
+        isAuthenticated,
         isOnline,
+        sessionExpiredReason,
         login,
+        requestPhoneCode,
+        loginWithPhone,
         logout,
+        registerDriver,
+        resubmitDriver,
+        submitAppeal,
+        refreshDriver,
         toggleOnline,
         updateLocation,
       }}
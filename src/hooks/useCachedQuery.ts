@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isRequestCancelled } from '../services/api';
+import { matchesQueryKey, onCacheInvalidated, queryCache } from '../services/queryCache';
+import { useAbortSignal } from './useAbortSignal';
+
+// Stale-while-revalidate read: returns the cached copy immediately, then the
+// server's. isLoading is only true while there is nothing at all to show.
+export function useCachedQuery<T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>) {
+  const [data, setData] = useState<T | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const getSignal = useAbortSignal();
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  // Set once the server answered, so a slow cache read can't overwrite fresh data
+  const hasFreshData = useRef(false);
+
+  const refresh = useCallback(async () => {
+    setIsValidating(true);
+    try {
+      const freshData = await fetcherRef.current(getSignal());
+      hasFreshData.current = true;
+      const entry = await queryCache.set(key, freshData);
+      setData(freshData);
+      setUpdatedAt(entry.updatedAt);
+      setError(null);
+    } catch (err) {
+      if (isRequestCancelled(err)) return;
+      console.error(`Error fetching ${key}:`, err);
+      setError(err);
+    } finally {
+      setIsLoading(false);
+      setIsValidating(false);
+    }
+  }, [key, getSignal]);
+
+  useEffect(() => {
+    hasFreshData.current = false;
+    queryCache.get<T>(key).then((entry) => {
+      if (!entry || hasFreshData.current) return;
+      setData(entry.data);
+      setUpdatedAt(entry.updatedAt);
+      setIsLoading(false);
+    });
+    refresh();
+  }, [key, refresh]);
+
+  useEffect(() => {
+    return onCacheInvalidated((prefixes) => {
+      if (matchesQueryKey(key, prefixes)) {
+        refresh();
+      }
+    });
+  }, [key, refresh]);
+
+  return { data, updatedAt, isLoading, isValidating, error, refresh };
+}
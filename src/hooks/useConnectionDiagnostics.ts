@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getDiagnostics, onDiagnosticsChange } from '../services/diagnostics';
+import { driversApi } from '../services/driverApi';
+import { retryConnection } from '../services/ordersSocket';
+
+// Live connection state for the header indicator and the diagnostics screen
+export function useConnectionDiagnostics() {
+  const [diagnostics, setDiagnostics] = useState(getDiagnostics);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => onDiagnosticsChange(setDiagnostics), []);
+
+  // The results land in the diagnostics through the HTTP client and the socket
+  const testConnection = useCallback(async () => {
+    setIsTesting(true);
+    retryConnection();
+    try {
+      await driversApi.ping();
+    } catch (error) {
+      console.log('Connection test failed:', error);
+    } finally {
+      setIsTesting(false);
+    }
+  }, []);
+
+  return { diagnostics, testConnection, isTesting };
+}
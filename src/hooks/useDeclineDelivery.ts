@@ -0,0 +1,30 @@
+import { useCallback, useState } from 'react';
+import { deliveriesApi } from '../services/driverApi';
+import { recordDecline } from '../services/shiftStats';
+import { DeclineReason } from '../types';
+import { presentError } from '../utils/presentError';
+
+// Sends a decline to the server and counts it for the shift.
+// Resolves to true once the server has it; errors are presented here.
+export function useDeclineDelivery() {
+  const [isDeclining, setIsDeclining] = useState(false);
+
+  const declineDelivery = useCallback(
+    async (deliveryId: string, reason: DeclineReason, note?: string): Promise<boolean> => {
+      setIsDeclining(true);
+      try {
+        await deliveriesApi.decline(deliveryId, reason, note);
+        await recordDecline();
+        return true;
+      } catch (error) {
+        presentError(error, { title: 'Não foi possível recusar a entrega' });
+        return false;
+      } finally {
+        setIsDeclining(false);
+      }
+    },
+    []
+  );
+
+  return { declineDelivery, isDeclining };
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { getEnvironment, loadEnvironment, onEnvironmentChange } from '../services/environment';
+
+// Current backend environment; re-renders when it is switched at runtime
+export function useEnvironment() {
+  const [environment, setEnvironment] = useState(getEnvironment);
+
+  useEffect(() => {
+    const unsubscribe = onEnvironmentChange(setEnvironment);
+    loadEnvironment().then(setEnvironment);
+    return unsubscribe;
+  }, []);
+
+  return environment;
+}
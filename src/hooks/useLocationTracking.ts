@@ -1,7 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { io, Socket } from 'socket.io-client';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { BASE_URL } from '../services/api';
+import { useOrdersSocket } from './useOrdersSocket';
+import { recordGpsState, recordLocationSent } from '../services/diagnostics';
 
 // Import Location with error handling
 let Location: typeof import('expo-location') | null = null;
@@ -33,56 +32,16 @@ export function useLocationTracking({
   const [location, setLocation] = useState<LocationData | null>(null);
   const [isTracking, setIsTracking] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const socketRef = useRef<Socket | null>(null);
   const watchIdRef = useRef<any>(null);
+  // Locations go out over the app-wide /orders connection
+  const { emit } = useOrdersSocket();
 
-  // Connect to tracking socket
-  const connectSocket = useCallback(async () => {
-    if (!driverId) return;
-
-    try {
-      const token = await AsyncStorage.getItem('@FoodApp:token');
-
-      // Connect to /orders namespace which is where the backend gateway listens
-      socketRef.current = io(`${BASE_URL}/orders`, {
-        path: '/socket.io',
-        transports: ['websocket', 'polling'],
-        auth: { token },
-      });
-
-      socketRef.current.on('connect', () => {
-        console.log('Tracking socket connected');
-        socketRef.current?.emit('driverConnect', driverId);
-      });
-
-      socketRef.current.on('disconnect', () => {
-        console.log('Tracking socket disconnected');
-      });
-
-      socketRef.current.on('error', (err: any) => {
-        console.error('Tracking socket error:', err);
-        setError('Connection error');
-      });
-    } catch (err) {
-      console.error('Failed to connect tracking socket:', err);
-      setError('Failed to connect');
-    }
-  }, [driverId]);
-
-  // Disconnect socket
-  const disconnectSocket = useCallback(() => {
-    if (socketRef.current) {
-      socketRef.current.disconnect();
-      socketRef.current = null;
-    }
-  }, []);
-
-  // Send location update
+  // Send location update; dropped while the socket is down
   const sendLocationUpdate = useCallback(
     (locationData: LocationData) => {
-      if (!socketRef.current?.connected || !driverId) return;
+      if (!driverId) return;
 
-      socketRef.current.emit('updateLocation', {
+      const sent = emit('updateLocation', {
         driverId,
         latitude: locationData.latitude,
         longitude: locationData.longitude,
@@ -91,8 +50,11 @@ export function useLocationTracking({
         heading: locationData.heading,
         orderId: activeOrderId,
       });
+      if (sent) {
+        recordLocationSent();
+      }
     },
-    [driverId, activeOrderId]
+    [driverId, activeOrderId, emit]
   );
 
   // Start location tracking
@@ -100,7 +62,8 @@ export function useLocationTracking({
     // Check if Location module is available
     if (!Location) {
       console.warn('Location module not available');
-      setError('Location not available');
+      setError('Localização indisponível neste aparelho');
+      recordGpsState('unavailable');
       return false;
     }
 
@@ -108,7 +71,8 @@ export function useLocationTracking({
       // Request permissions
       const { status: foregroundStatus } = await Location.requestForegroundPermissionsAsync();
       if (foregroundStatus !== 'granted') {
-        setError('Location permission denied');
+        setError('Permissão de localização negada');
+        recordGpsState('denied');
         return false;
       }
 
@@ -160,10 +124,12 @@ export function useLocationTracking({
 
       setIsTracking(true);
       setError(null);
+      recordGpsState('tracking');
       return true;
     } catch (err) {
       console.error('Failed to start location tracking:', err);
-      setError('Failed to start tracking');
+      setError('Não foi possível ativar o GPS');
+      recordGpsState('error');
       return false;
     }
   }, [sendLocationUpdate]);
@@ -175,23 +141,21 @@ export function useLocationTracking({
       watchIdRef.current = null;
     }
     setIsTracking(false);
+    recordGpsState('off');
   }, []);
 
-  // Connect/disconnect socket based on online status
+  // Start/stop tracking based on online status
   useEffect(() => {
     if (isOnline && driverId) {
-      connectSocket();
       startTracking();
     } else {
       stopTracking();
-      disconnectSocket();
     }
 
     return () => {
       stopTracking();
-      disconnectSocket();
     };
-  }, [isOnline, driverId, connectSocket, disconnectSocket, startTracking, stopTracking]);
+  }, [isOnline, driverId, startTracking, stopTracking]);
 
   // Update tracking when active order changes
   useEffect(() => {
@@ -0,0 +1,153 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import {
+  connectOrdersSocket,
+  disconnectOrdersSocket,
+  emit,
+  getConnectionState,
+  joinOrderRoom,
+  onConnectionStateChange,
+  onSocketReconnect,
+  SocketConnectionState,
+  subscribe,
+} from '../services/ordersSocket';
+import { OrderStatusUpdateEvent, ServerEventHandler, ServerEventName } from '../services/socketEvents';
+import { Delivery } from '../types';
+import { useAuth } from './useAuth';
+import { useEnvironment } from './useEnvironment';
+
+interface OrdersSocketContextType {
+  connectionState: SocketConnectionState;
+  isConnected: boolean;
+  emit: typeof emit;
+  subscribe: typeof subscribe;
+}
+
+const OrdersSocketContext = createContext<OrdersSocketContextType | undefined>(undefined);
+
+// Keeps the one /orders connection open while an approved driver is logged in
+export function OrdersSocketProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated, driver } = useAuth();
+  const environment = useEnvironment();
+  const [connectionState, setConnectionState] = useState(getConnectionState);
+
+  const driverId = isAuthenticated && driver?.status === 'APPROVED' ? driver.id : null;
+
+  useEffect(() => onConnectionStateChange(setConnectionState), []);
+
+  useEffect(() => {
+    if (!driverId) {
+      disconnectOrdersSocket();
+      return;
+    }
+    // Connect to the namespace the backend gateway listens on for the current environment
+    connectOrdersSocket(`${environment.socketUrl}${environment.socketNamespace}`, driverId);
+  }, [driverId, environment]);
+
+  useEffect(() => disconnectOrdersSocket, []);
+
+  return (
+    <OrdersSocketContext.Provider
+      value={{
+        connectionState,
+        isConnected: connectionState === 'connected',
+        emit,
+        subscribe,
+      }}
+    >
+      {children}
+    </OrdersSocketContext.Provider>
+  );
+}
+
+export function useOrdersSocket() {
+  const context = useContext(OrdersSocketContext);
+  if (!context) {
+    throw new Error('useOrdersSocket must be used within an OrdersSocketProvider');
+  }
+  return context;
+}
+
+// Subscribes to one gateway event for as long as the component is mounted.
+// The latest handler is always called, so callers don't need to memoize it.
+export function useSocketEvent<E extends ServerEventName>(
+  event: E,
+  handler: ServerEventHandler<E> | undefined,
+  enabled = true
+) {
+  const { subscribe: subscribeToEvent } = useOrdersSocket();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const hasHandler = !!handler;
+
+  useEffect(() => {
+    if (!enabled || !hasHandler) return;
+    return subscribeToEvent(event, (payload) => handlerRef.current?.(payload));
+  }, [event, enabled, hasHandler, subscribeToEvent]);
+}
+
+// Runs after the connection dropped and came back, to reload whatever the
+// screen shows from events that may have been missed meanwhile
+export function useSocketReconnect(callback: () => void) {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => onSocketReconnect(() => callbackRef.current()), []);
+}
+
+// Keeps the socket in an order's room (status updates for that order) while
+// the component is mounted with that order
+export function useOrderRoom(orderId: string | null | undefined) {
+  useEffect(() => {
+    if (!orderId) return;
+    return joinOrderRoom(orderId);
+  }, [orderId]);
+}
+
+interface UseDriverSocketOptions {
+  // Offers are only wanted while the driver is online
+  enabled: boolean;
+  onNewAvailableDelivery?: (order: Delivery, expiresAt: number | null) => void;
+  onDeliveryTaken?: (orderId: string) => void;
+  onOrderStatusUpdate?: (data: OrderStatusUpdateEvent) => void;
+}
+
+export function useDriverSocket({
+  enabled,
+  onNewAvailableDelivery,
+  onDeliveryTaken,
+  onOrderStatusUpdate,
+}: UseDriverSocketOptions) {
+  const { isConnected } = useOrdersSocket();
+
+  useSocketEvent(
+    'newAvailableDelivery',
+    onNewAvailableDelivery &&
+      ((data) => {
+        console.log('New available delivery:', data.order.id);
+        onNewAvailableDelivery(data.order, data.expiresAt);
+      }),
+    enabled
+  );
+
+  useSocketEvent(
+    'deliveryTaken',
+    onDeliveryTaken &&
+      ((data) => {
+        console.log('Delivery taken:', data.orderId);
+        onDeliveryTaken(data.orderId);
+      }),
+    enabled
+  );
+
+  useSocketEvent(
+    'orderStatusUpdate',
+    onOrderStatusUpdate &&
+      ((data) => {
+        console.log('Order status update:', data.orderId, data.status);
+        onOrderStatusUpdate(data);
+      }),
+    enabled
+  );
+
+  return { isConnected };
+}
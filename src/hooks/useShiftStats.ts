@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { getShiftStats, onShiftStatsChange } from '../services/shiftStats';
+import { ShiftStats } from '../types';
+
+// Counters of the current shift; null while the driver is offline
+export function useShiftStats() {
+  const [stats, setStats] = useState<ShiftStats | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onShiftStatsChange(setStats);
+    getShiftStats().then(setStats);
+    return unsubscribe;
+  }, []);
+
+  return stats;
+}
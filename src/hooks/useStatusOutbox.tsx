@@ -0,0 +1,112 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  enqueueStatusChange,
+  flushOutbox,
+  getPendingChanges,
+  onOutboxEvent,
+} from '../services/statusOutbox';
+import { Delivery, PendingStatusChange } from '../types';
+import { useAuth } from './useAuth';
+import { presentError } from '../utils/presentError';
+
+// Retry interval while changes are pending and the device looks connected
+// (e.g. the server answered 5xx, which NetInfo won't tell us about)
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+interface StatusOutboxContextType {
+  pendingChanges: PendingStatusChange[];
+  isSyncing: boolean;
+  queueStatusChange: (orderId: string, status: Delivery['status']) => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+const StatusOutboxContext = createContext<StatusOutboxContextType | undefined>(undefined);
+
+export function StatusOutboxProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const [pendingChanges, setPendingChanges] = useState<PendingStatusChange[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    getPendingChanges().then(setPendingChanges);
+
+    return onOutboxEvent((event) => {
+      setPendingChanges(event.pending);
+      if (event.type === 'rejected') {
+        presentError(event.error, { title: 'Status não sincronizado' });
+      }
+    });
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!isAuthenticated) return;
+    setIsSyncing(true);
+    try {
+      await flushOutbox();
+    } catch (error) {
+      console.error('Error syncing status outbox:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [isAuthenticated]);
+
+  // Replay when connectivity returns and when the app comes back to the foreground.
+  // NetInfo also calls the listener right away, which covers changes left from a previous run.
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        syncNow();
+      }
+    });
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') {
+        syncNow();
+      }
+    });
+
+    return () => {
+      unsubscribeNetInfo();
+      subscription.remove();
+    };
+  }, [isAuthenticated, syncNow]);
+
+  const hasPendingChanges = pendingChanges.length > 0;
+
+  useEffect(() => {
+    if (!isAuthenticated || !hasPendingChanges) return;
+
+    const interval = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, hasPendingChanges, syncNow]);
+
+  const queueStatusChange = async (orderId: string, status: Delivery['status']) => {
+    await enqueueStatusChange(orderId, status);
+    // Don't block the UI on the request; the outbox keeps it until it's confirmed
+    syncNow();
+  };
+
+  return (
+    <StatusOutboxContext.Provider
+      value={{
+        pendingChanges,
+        isSyncing,
+        queueStatusChange,
+        syncNow,
+      }}
+    >
+      {children}
+    </StatusOutboxContext.Provider>
+  );
+}
+
+export function useStatusOutbox() {
+  const context = useContext(StatusOutboxContext);
+  if (!context) {
+    throw new Error('useStatusOutbox must be used within a StatusOutboxProvider');
+  }
+  return context;
+}
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Vibration,
+} from 'react-native';
+import { Lock, Delete } from 'lucide-react-native';
+import { useAppLock } from '../hooks/useAppLock';
+
+const MAX_PIN_LENGTH = 6;
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'];
+
+// Full-screen overlay rendered on top of the navigator while the app is locked
+export function AppLockScreen() {
+  const { unlock, remainingAttempts } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (pin.length < 4) {
+      setError('O PIN deve ter de 4 a 6 dígitos');
+      return;
+    }
+
+    setIsChecking(true);
+    const success = await unlock(pin);
+    setIsChecking(false);
+
+    if (!success) {
+      Vibration.vibrate(300);
+      setPin('');
+      const attemptsLeft = remainingAttempts - 1;
+      setError(
+        attemptsLeft > 0
+          ? `PIN incorreto. ${attemptsLeft} tentativa(s) restante(s)`
+          : 'PIN incorreto'
+      );
+    }
+  };
+
+  const handleKeyPress = (key: string) => {
+    setError(null);
+    if (key === 'delete') {
+      setPin((prev) => prev.slice(0, -1));
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin((prev) => prev + key);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.iconContainer}>
+        <Lock size={40} color="#F97316" />
+      </View>
+      <Text style={styles.title}>App bloqueado</Text>
+      <Text style={styles.subtitle}>Digite seu PIN para continuar</Text>
+
+      <View style={styles.dots}>
+        {Array.from({ length: MAX_PIN_LENGTH }).map((_, index) => (
+          <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <Text style={styles.errorText}>{error || ' '}</Text>
+
+      <View style={styles.keypad}>
+        {KEYPAD.map((key, index) =>
+          key === '' ? (
+            <View key={index} style={styles.key} />
+          ) : (
+            <TouchableOpacity
+              key={index}
+              style={styles.key}
+              onPress={() => handleKeyPress(key)}
+              disabled={isChecking}
+            >
+              {key === 'delete' ? (
+                <Delete size={28} color="#333" />
+              ) : (
+                <Text style={styles.keyText}>{key}</Text>
+              )}
+            </TouchableOpacity>
+          ),
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.button, isChecking && styles.buttonDisabled]}
+        onPress={handleUnlock}
+        disabled={isChecking}
+      >
+        {isChecking ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.buttonText}>Desbloquear</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    zIndex: 1000,
+    elevation: 1000,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#FFF3E0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 24,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#F97316',
+  },
+  dotFilled: {
+    backgroundColor: '#F97316',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginBottom: 16,
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    width: 264,
+    marginBottom: 16,
+  },
+  key: {
+    width: 88,
+    height: 64,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: 26,
+    fontWeight: '500',
+    color: '#1a1a1a',
+  },
+  button: {
+    alignSelf: 'stretch',
+    height: 50,
+    backgroundColor: '#F97316',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { ArrowLeft, Check } from 'lucide-react-native';
+import { useAppLock, LOCK_TIMEOUT_OPTIONS } from '../hooks/useAppLock';
+import { presentError } from '../utils/presentError';
+
+export function AppLockSettingsScreen({ navigation }: any) {
+  const { isEnabled, timeoutMs, enableLock, disableLock, setLockTimeout } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [selectedTimeout, setSelectedTimeout] = useState(timeoutMs);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleEnable = async () => {
+    if (!/^\d{4,6}$/.test(pin)) {
+      Alert.alert('Erro', 'O PIN deve ter de 4 a 6 dígitos');
+      return;
+    }
+    if (pin !== confirmPin) {
+      Alert.alert('Erro', 'Os PINs não coincidem');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await enableLock(pin, selectedTimeout);
+      setPin('');
+      setConfirmPin('');
+      Alert.alert('Sucesso', 'Bloqueio por PIN ativado');
+    } catch (error) {
+      presentError(error, { title: 'Erro ao ativar o bloqueio' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelectTimeout = async (value: number) => {
+    setSelectedTimeout(value);
+    if (isEnabled) {
+      await setLockTimeout(value);
+    }
+  };
+
+  const handleDisable = () => {
+    Alert.alert(
+      'Desativar bloqueio',
+      'Qualquer pessoa com o celular poderá acessar o app. Deseja continuar?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Desativar', style: 'destructive', onPress: disableLock },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Bloqueio do app</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.description}>
+          Proteja seus ganhos, dados pessoais e pedidos com um PIN solicitado quando o app
+          voltar do segundo plano.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Bloquear após</Text>
+        <View style={styles.card}>
+          {LOCK_TIMEOUT_OPTIONS.map((option, index) => (
+            <View key={option.value}>
+              {index > 0 && <View style={styles.divider} />}
+              <TouchableOpacity
+                style={styles.optionRow}
+                onPress={() => handleSelectTimeout(option.value)}
+              >
+                <Text style={styles.optionText}>{option.label}</Text>
+                {selectedTimeout === option.value && <Check size={20} color="#F97316" />}
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
+        {isEnabled ? (
+          <TouchableOpacity style={styles.disableButton} onPress={handleDisable}>
+            <Text style={styles.disableButtonText}>Desativar bloqueio</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Definir PIN</Text>
+            <View style={styles.card}>
+              <Text style={styles.label}>PIN (4 a 6 dígitos)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="••••"
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={6}
+                value={pin}
+                onChangeText={(value) => setPin(value.replace(/\D/g, ''))}
+              />
+              <Text style={styles.label}>Confirmar PIN</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="••••"
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={6}
+                value={confirmPin}
+                onChangeText={(value) => setConfirmPin(value.replace(/\D/g, ''))}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, isSaving && styles.buttonDisabled]}
+              onPress={handleEnable}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Ativar bloqueio</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <Text style={styles.hint}>
+          Após 5 tentativas incorretas, você será desconectado e precisará entrar novamente.
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 50,
+    paddingBottom: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 16,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#eee',
+    marginVertical: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 18,
+    letterSpacing: 6,
+    color: '#333',
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  button: {
+    height: 50,
+    backgroundColor: '#F97316',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disableButton: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#EF4444',
+    marginBottom: 16,
+  },
+  disableButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
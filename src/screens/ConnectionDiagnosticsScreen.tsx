@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { ArrowDownLeft, ArrowLeft, ArrowUpRight } from 'lucide-react-native';
+import { useConnectionDiagnostics } from '../hooks/useConnectionDiagnostics';
+import { useEnvironment } from '../hooks/useEnvironment';
+import {
+  formatElapsed,
+  getGpsHealth,
+  getRestHealth,
+  getSocketHealth,
+  ConnectionHealth,
+  GPS_STATE_LABELS,
+  HEALTH_COLORS,
+  SOCKET_STATE_LABELS,
+} from '../components/ConnectionIndicator';
+
+const TICK_MS = 5 * 1000;
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString('pt-BR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+function StatusRow({
+  label,
+  value,
+  health,
+}: {
+  label: string;
+  value: string;
+  health?: ConnectionHealth;
+}) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <View style={styles.rowValueContainer}>
+        {health && <View style={[styles.dot, { backgroundColor: HEALTH_COLORS[health] }]} />}
+        <Text style={styles.rowValue}>{value}</Text>
+      </View>
+    </View>
+  );
+}
+
+export function ConnectionDiagnosticsScreen({ navigation }: any) {
+  const { diagnostics, testConnection, isTesting } = useConnectionDiagnostics();
+  const environment = useEnvironment();
+  const [, setTick] = useState(0);
+  const { rest, socket, gps, recentEvents } = diagnostics;
+
+  // Relative times keep moving while the screen is open
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Diagnóstico de conexão</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Servidor</Text>
+        <View style={styles.card}>
+          <StatusRow
+            label="Status"
+            value={
+              rest.reachable === null
+                ? 'Sem dados'
+                : rest.reachable
+                  ? 'Acessível'
+                  : 'Inacessível'
+            }
+            health={getRestHealth(diagnostics)}
+          />
+          <StatusRow
+            label="Latência"
+            value={rest.latencyMs !== null ? `${rest.latencyMs} ms` : '--'}
+          />
+          <StatusRow
+            label="Última verificação"
+            value={rest.lastCheckedAt ? formatElapsed(rest.lastCheckedAt) : '--'}
+          />
+          <StatusRow label="Endereço" value={environment.apiUrl} />
+        </View>
+
+        <Text style={styles.sectionTitle}>Tempo real</Text>
+        <View style={styles.card}>
+          <StatusRow
+            label="Status"
+            value={SOCKET_STATE_LABELS[socket.state]}
+            health={getSocketHealth(diagnostics)}
+          />
+          <StatusRow
+            label="Conectado"
+            value={socket.connectedAt ? formatElapsed(socket.connectedAt) : '--'}
+          />
+          <StatusRow label="Reconexões" value={String(socket.reconnectCount)} />
+        </View>
+
+        <Text style={styles.sectionTitle}>GPS</Text>
+        <View style={styles.card}>
+          <StatusRow
+            label="Status"
+            value={GPS_STATE_LABELS[gps.state]}
+            health={getGpsHealth(diagnostics)}
+          />
+          <StatusRow
+            label="Última localização enviada"
+            value={gps.lastLocationSentAt ? formatElapsed(gps.lastLocationSentAt) : '--'}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.testButton, isTesting && styles.buttonDisabled]}
+          onPress={testConnection}
+          disabled={isTesting}
+        >
+          {isTesting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.testButtonText}>Testar conexão</Text>
+          )}
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>Eventos recentes</Text>
+        <View style={styles.card}>
+          {recentEvents.length === 0 ? (
+            <Text style={styles.emptyText}>Nenhum evento registrado</Text>
+          ) : (
+            recentEvents.map((entry, index) => (
+              <View key={`${entry.at}-${index}`} style={styles.eventRow}>
+                {entry.direction === 'in' ? (
+                  <ArrowDownLeft size={14} color="#16A34A" />
+                ) : (
+                  <ArrowUpRight size={14} color="#F97316" />
+                )}
+                <Text style={styles.eventName} numberOfLines={1}>
+                  {entry.event}
+                </Text>
+                <Text style={styles.eventTime}>{formatTime(entry.at)}</Text>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 50,
+    paddingBottom: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  rowValueContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexShrink: 1,
+    gap: 6,
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    flexShrink: 1,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  testButton: {
+    backgroundColor: '#F97316',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  testButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  eventName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  eventTime: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
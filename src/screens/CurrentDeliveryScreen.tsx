@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,20 +7,37 @@ import {
   Alert,
   Linking,
   ScrollView,
+  Vibration,
   ActivityIndicator,
 } from 'react-native';
-import api from '../services/api';
-import { Delivery } from '../types';
+import { CloudOff, RefreshCw } from 'lucide-react-native';
+import { deliveriesApi } from '../services/driverApi';
+import { ApiError } from '../services/apiErrors';
+import { getPendingChanges, onOutboxEvent } from '../services/statusOutbox';
+import { OrderStatusUpdateEvent } from '../services/socketEvents';
+import { Delivery, DeliveryUpdateNotice } from '../types';
+import { presentError } from '../utils/presentError';
+import { getDeliveryChanges } from '../utils/deliveryChanges';
 import { useAuth } from '../hooks/useAuth';
+import { useStatusOutbox } from '../hooks/useStatusOutbox';
 import { useLocationTracking } from '../hooks/useLocationTracking';
+import { useDriverSocket, useOrderRoom, useSocketReconnect } from '../hooks/useOrdersSocket';
 import { DeliveryMapView } from '../components/DeliveryMapView';
+import { DeliveryUpdateModal } from '../components/DeliveryUpdateModal';
 
 export function CurrentDeliveryScreen({ route, navigation }: any) {
   const { deliveryId } = route.params;
   const { driver } = useAuth();
+  const { pendingChanges, queueStatusChange } = useStatusOutbox();
   const [delivery, setDelivery] = useState<Delivery | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [notice, setNotice] = useState<DeliveryUpdateNotice | null>(null);
+  // The reload after a reconnect failed; what's on screen may be out of date
+  const [isStale, setIsStale] = useState(false);
+  // Last status this device sent, so the server's echo of it isn't shown as a change
+  const ownStatusRef = useRef<Delivery['status'] | null>(null);
+  const hasEnded = notice !== null && notice.type !== 'changed';
 
   // Track location during active delivery
   const { location, isTracking } = useLocationTracking({
@@ -33,35 +50,139 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
     fetchDelivery();
   }, [deliveryId]);
 
+  // Replace the optimistic status with the server's copy once the outbox confirms it
+  useEffect(() => {
+    if (!delivery?.id) return;
+    const orderId = delivery.id;
+
+    return onOutboxEvent((event) => {
+      if (event.type === 'changed' || event.change.orderId !== orderId) return;
+      if (event.pending.some((change) => change.orderId === orderId)) return;
+
+      if (event.type === 'confirmed' && event.delivery) {
+        setDelivery(event.delivery);
+      } else if (event.type === 'rejected') {
+        fetchDelivery();
+      }
+    });
+  }, [delivery?.id]);
+
+  // Keep showing transitions the server hasn't received yet
+  const applyServerDelivery = async (serverDelivery: Delivery) => {
+    const pending = (await getPendingChanges()).filter(
+      (change) => change.orderId === serverDelivery.id
+    );
+    const latest = pending[pending.length - 1];
+    setDelivery(latest ? { ...serverDelivery, status: latest.status } : serverDelivery);
+  };
+
   const fetchDelivery = async () => {
     try {
-      const response = await api.get('/drivers/deliveries/current');
-      setDelivery(response.data);
+      const currentDelivery = await deliveriesApi.getCurrent();
+      if (!currentDelivery) {
+        throw new ApiError('not_found');
+      }
+      await applyServerDelivery(currentDelivery);
     } catch (error) {
-      Alert.alert('Erro', 'Não foi possível carregar os detalhes da entrega');
+      presentError(error, { title: 'Não foi possível carregar os detalhes da entrega' });
       navigation.goBack();
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleUpdateStatus = async (newStatus: string) => {
+  // Picks up a cancellation or status change missed while the socket was down.
+  // A failed reload leaves the delivery on screen, flagged as possibly out of date.
+  const refreshAfterReconnect = async () => {
+    if (!delivery || hasEnded) return;
+    const orderId = delivery.id;
+    try {
+      const currentDelivery = await deliveriesApi.getCurrent();
+      setIsStale(false);
+      if (currentDelivery?.id === orderId) {
+        await applyServerDelivery(currentDelivery);
+        return;
+      }
+      // Finished on this device; the outbox is still confirming it
+      if (ownStatusRef.current === 'DELIVERED') return;
+
+      // No longer the current delivery: the history tells how it ended, and
+      // an order missing from it was given to someone else
+      const ended = (await deliveriesApi.getHistory()).find((item) => item.id === orderId);
+      setNotice({
+        type:
+          ended?.status === 'CANCELLED'
+            ? 'cancelled'
+            : ended?.status === 'DELIVERED'
+              ? 'completed'
+              : 'unassigned',
+        changes: [],
+      });
+    } catch (error) {
+      console.error('Error refreshing delivery after reconnect:', error);
+      setIsStale(true);
+    }
+  };
+
+  useSocketReconnect(refreshAfterReconnect);
+
+  const handleOrderStatusUpdate = ({ orderId, status, order }: OrderStatusUpdateEvent) => {
+    if (!delivery || orderId !== delivery.id || hasEnded) return;
+
+    if (status === 'CANCELLED' || status === 'DELIVERED') {
+      if (status === ownStatusRef.current) return;
+      setDelivery({ ...(order ?? delivery), status });
+      setNotice({ type: status === 'CANCELLED' ? 'cancelled' : 'completed', changes: [] });
+      return;
+    }
+
+    const isOwnStatus = status === ownStatusRef.current;
+    // Transitions still in the outbox are newer than what the server knows
+    const hasPending = pendingChanges.some((change) => change.orderId === orderId);
+    const next = {
+      ...(order ?? delivery),
+      status: hasPending || isOwnStatus ? delivery.status : status,
+    };
+    const changes = getDeliveryChanges(delivery, next);
+
+    setDelivery(next);
+    if (changes.length > 0) {
+      Vibration.vibrate([0, 300, 150, 300]);
+      // A change arriving while the alert is open is added to the same list
+      setNotice((prev) => ({
+        type: 'changed',
+        changes:
+          prev?.type === 'changed' ? [...new Set([...prev.changes, ...changes])] : changes,
+      }));
+    }
+  };
+
+  useOrderRoom(delivery?.id);
+  useDriverSocket({ enabled: !!delivery, onOrderStatusUpdate: handleOrderStatusUpdate });
+
+  const handleDismissNotice = (dismissed: DeliveryUpdateNotice) => {
+    setNotice(null);
+    if (dismissed.type !== 'changed') {
+      navigation.navigate('Main');
+    }
+  };
+
+  const handleUpdateStatus = async (newStatus: Delivery['status']) => {
     if (!delivery?.id) return;
     setIsUpdating(true);
     try {
-      const response = await api.patch(`/orders/${delivery.id}/status`, {
-        status: newStatus,
-      });
-      setDelivery(response.data);
+      ownStatusRef.current = newStatus;
+      // Saved locally first and synced in the background, so it survives losing signal
+      await queueStatusChange(delivery.id, newStatus);
+      setDelivery({ ...delivery, status: newStatus });
 
       if (newStatus === 'DELIVERED') {
         Alert.alert('Sucesso', 'Entrega concluída!', [
           { text: 'OK', onPress: () => navigation.navigate('Main') },
         ]);
       }
-    } catch (error: any) {
-      const message = error.response?.data?.message || 'Erro ao atualizar status';
-      Alert.alert('Erro', message);
+    } catch (error) {
+      presentError(error, { title: 'Erro ao atualizar status' });
     } finally {
       setIsUpdating(false);
     }
@@ -80,12 +201,10 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
           onPress: async () => {
             setIsUpdating(true);
             try {
-              await api.patch(`/orders/${delivery.id}/status`, {
-                status: 'CANCELLED',
-              });
+              await queueStatusChange(delivery.id, 'CANCELLED');
               navigation.navigate('Main');
             } catch (error) {
-              Alert.alert('Erro', 'Não foi possível cancelar a entrega');
+              presentError(error, { title: 'Não foi possível cancelar a entrega' });
             } finally {
               setIsUpdating(false);
             }
@@ -118,7 +237,7 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
           title: 'Entregue ao cliente',
           subtitle: 'Leve o pedido até o endereço de entrega',
           nextAction: 'Iniciar Entrega',
-          nextStatus: 'IN_TRANSIT',
+          nextStatus: 'IN_TRANSIT' as const,
           color: '#F97316',
         };
       case 'IN_TRANSIT':
@@ -126,7 +245,7 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
           title: 'Em trânsito',
           subtitle: 'Entregue o pedido ao cliente',
           nextAction: 'Confirmar Entrega',
-          nextStatus: 'DELIVERED',
+          nextStatus: 'DELIVERED' as const,
           color: '#22C55E',
         };
       default:
@@ -147,6 +266,7 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
   }
 
   const statusInfo = getStatusInfo();
+  const isPendingSync = pendingChanges.some((change) => change.orderId === delivery.id);
 
   // Build pickup address from restaurant data
   const pickupAddress = delivery.restaurant
@@ -165,13 +285,13 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
   } : undefined;
 
   const restaurantLocation = delivery.restaurant?.latitude && delivery.restaurant?.longitude ? {
-    latitude: Number(delivery.restaurant.latitude),
-    longitude: Number(delivery.restaurant.longitude),
+    latitude: delivery.restaurant.latitude,
+    longitude: delivery.restaurant.longitude,
   } : undefined;
 
   const customerLocation = delivery.deliveryAddress?.latitude && delivery.deliveryAddress?.longitude ? {
-    latitude: Number(delivery.deliveryAddress.latitude),
-    longitude: Number(delivery.deliveryAddress.longitude),
+    latitude: delivery.deliveryAddress.latitude,
+    longitude: delivery.deliveryAddress.longitude,
   } : undefined;
 
   return (
@@ -179,6 +299,18 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
       {/* Header - no back button, driver must complete or cancel delivery */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Entrega Atual</Text>
+        {isPendingSync && (
+          <View style={styles.syncBadge}>
+            <CloudOff size={12} color="#B45309" />
+            <Text style={styles.syncBadgeText}>Aguardando sincronização</Text>
+          </View>
+        )}
+        {isStale && (
+          <TouchableOpacity style={styles.syncBadge} onPress={refreshAfterReconnect}>
+            <RefreshCw size={12} color="#B45309" />
+            <Text style={styles.syncBadgeText}>Não atualizado · toque para tentar de novo</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {statusInfo && (
@@ -238,10 +370,10 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
             >
               <Text style={styles.actionButtonText}>📍 Abrir Mapa</Text>
             </TouchableOpacity>
-            {delivery.customer?.user?.phone && (
+            {delivery.customer?.phone && (
               <TouchableOpacity
                 style={styles.actionButton}
-                onPress={() => callPhone(delivery.customer.user.phone!)}
+                onPress={() => callPhone(delivery.customer.phone!)}
               >
                 <Text style={styles.actionButtonText}>📞 Ligar</Text>
               </TouchableOpacity>
@@ -254,10 +386,10 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
         <Text style={styles.sectionTitle}>Detalhes do Pedido</Text>
         <View style={styles.card}>
           <View style={styles.orderItems}>
-            {(delivery.items || []).map((item: any) => (
+            {delivery.items.map((item) => (
               <View key={item.id} style={styles.orderItem}>
                 <Text style={styles.itemQuantity}>{item.quantity}x</Text>
-                <Text style={styles.itemName}>{item.menuItem?.name || 'Item'}</Text>
+                <Text style={styles.itemName}>{item.name}</Text>
               </View>
             ))}
           </View>
@@ -279,11 +411,11 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
         <View style={styles.card}>
           <View style={styles.valueRow}>
             <Text style={styles.valueLabel}>Total do pedido</Text>
-            <Text style={styles.valueText}>{formatCurrency(Number(delivery.total || 0))}</Text>
+            <Text style={styles.valueText}>{formatCurrency(delivery.total)}</Text>
           </View>
           <View style={styles.valueRow}>
             <Text style={styles.valueLabelHighlight}>Sua comissão</Text>
-            <Text style={styles.valueHighlight}>{formatCurrency(Number(delivery.deliveryFee || 0))}</Text>
+            <Text style={styles.valueHighlight}>{formatCurrency(delivery.deliveryFee)}</Text>
           </View>
         </View>
       </View>
@@ -312,6 +444,8 @@ export function CurrentDeliveryScreen({ route, navigation }: any) {
           </TouchableOpacity>
         )}
       </View>
+
+      <DeliveryUpdateModal notice={notice} onDismiss={handleDismissNotice} />
     </ScrollView>
   );
 }
@@ -336,6 +470,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#333',
   },
+  syncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: '#FEF3C7',
+  },
+  syncBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B45309',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1,11 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  Alert,
   Linking,
 } from 'react-native';
 import {
@@ -17,11 +16,16 @@ import {
   Navigation,
   Phone,
 } from 'lucide-react-native';
-import api from '../services/api';
-import { Delivery } from '../types';
+import { deliveriesApi } from '../services/driverApi';
+import { DeclineReason, Delivery } from '../types';
+import { presentError } from '../utils/presentError';
+import { useDeclineDelivery } from '../hooks/useDeclineDelivery';
+import { DeclineReasonModal } from '../components/DeclineReasonPicker';
 
 export function DeliveryDetailsScreen({ route, navigation }: any) {
   const { delivery } = route.params as { delivery: Delivery };
+  const [isChoosingReason, setIsChoosingReason] = useState(false);
+  const { declineDelivery, isDeclining } = useDeclineDelivery();
 
   const formatCurrency = (value: number) => {
     return value.toLocaleString('pt-BR', {
@@ -32,11 +36,22 @@ export function DeliveryDetailsScreen({ route, navigation }: any) {
 
   const handleAcceptDelivery = async () => {
     try {
-      await api.post(`/drivers/deliveries/${delivery.id}/accept`);
+      await deliveriesApi.accept(delivery.id);
       navigation.replace('CurrentDelivery', { deliveryId: delivery.id });
-    } catch (error: any) {
-      const message = error.response?.data?.message || 'Erro ao aceitar entrega';
-      Alert.alert('Erro', message);
+    } catch (error) {
+      presentError(error, {
+        title: 'Erro ao aceitar entrega',
+        onRetry: handleAcceptDelivery,
+        onRefresh: () => navigation.goBack(),
+      });
+    }
+  };
+
+  // HomeScreen refetches on focus, and the server no longer lists a declined order
+  const handleDeclineDelivery = async (reason: DeclineReason, note?: string) => {
+    if (await declineDelivery(delivery.id, reason, note)) {
+      setIsChoosingReason(false);
+      navigation.goBack();
     }
   };
 
@@ -78,7 +93,7 @@ export function DeliveryDetailsScreen({ route, navigation }: any) {
         <View style={styles.feeBanner}>
           <Text style={styles.feeLabel}>Valor da entrega</Text>
           <Text style={styles.feeValue}>
-            {formatCurrency(Number(delivery.deliveryFee || 0))}
+            {formatCurrency(delivery.deliveryFee)}
           </Text>
         </View>
 
@@ -149,10 +164,10 @@ export function DeliveryDetailsScreen({ route, navigation }: any) {
               <Text style={styles.sectionTitle}>Itens do Pedido</Text>
             </View>
             <View style={styles.card}>
-              {delivery.items.map((item: any, index: number) => (
-                <View key={item.id || index} style={styles.orderItem}>
+              {delivery.items.map((item) => (
+                <View key={item.id} style={styles.orderItem}>
                   <Text style={styles.itemQuantity}>{item.quantity}x</Text>
-                  <Text style={styles.itemName}>{item.menuItem?.name || item.name || 'Item'}</Text>
+                  <Text style={styles.itemName}>{item.name}</Text>
                 </View>
               ))}
             </View>
@@ -176,7 +191,7 @@ export function DeliveryDetailsScreen({ route, navigation }: any) {
           <View style={styles.card}>
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Total do pedido</Text>
-              <Text style={styles.infoValue}>{formatCurrency(Number(delivery.total || 0))}</Text>
+              <Text style={styles.infoValue}>{formatCurrency(delivery.total)}</Text>
             </View>
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Pagamento</Text>
@@ -189,8 +204,14 @@ export function DeliveryDetailsScreen({ route, navigation }: any) {
         <View style={styles.bottomSpacer} />
       </ScrollView>
 
-      {/* Accept Button */}
+      {/* Decline / Accept Buttons */}
       <View style={styles.footer}>
+        <TouchableOpacity
+          style={styles.declineButton}
+          onPress={() => setIsChoosingReason(true)}
+        >
+          <Text style={styles.declineButtonText}>Recusar</Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.acceptButton}
           onPress={handleAcceptDelivery}
@@ -198,6 +219,13 @@ export function DeliveryDetailsScreen({ route, navigation }: any) {
           <Text style={styles.acceptButtonText}>Aceitar Entrega</Text>
         </TouchableOpacity>
       </View>
+
+      <DeclineReasonModal
+        visible={isChoosingReason}
+        onSubmit={handleDeclineDelivery}
+        onCancel={() => setIsChoosingReason(false)}
+        isSubmitting={isDeclining}
+      />
     </View>
   );
 }
@@ -368,8 +396,24 @@ const styles = StyleSheet.create({
     paddingBottom: 32,
     borderTopWidth: 1,
     borderTopColor: '#eee',
+    flexDirection: 'row',
+    gap: 12,
+  },
+  declineButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#DC2626',
+    alignItems: 'center',
+  },
+  declineButtonText: {
+    color: '#DC2626',
+    fontSize: 16,
+    fontWeight: '600',
   },
   acceptButton: {
+    flex: 1,
     backgroundColor: '#F97316',
     paddingVertical: 16,
     borderRadius: 8,
@@ -0,0 +1,150 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { XCircle, AlertTriangle, LogOut } from 'lucide-react-native';
+import { useAuth } from '../hooks/useAuth';
+
+export function DriverRejectedScreen({ navigation }: any) {
+  const { driver, logout } = useAuth();
+  const reasons = driver?.rejectionReasons?.length
+    ? driver.rejectionReasons
+    : ['Não foi possível validar os dados informados.'];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.iconContainer}>
+        <XCircle size={48} color="#EF4444" />
+      </View>
+      <Text style={styles.title}>Cadastro não aprovado</Text>
+      <Text style={styles.text}>
+        Analisamos seu cadastro e encontramos alguns problemas. Confira os motivos abaixo.
+      </Text>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Motivos</Text>
+        {reasons.map((reason) => (
+          <View key={reason} style={styles.reasonRow}>
+            <AlertTriangle size={16} color="#EF4444" />
+            <Text style={styles.reasonText}>{reason}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Como reenviar</Text>
+        <Text style={styles.stepText}>1. Corrija os dados indicados nos motivos acima.</Text>
+        <Text style={styles.stepText}>2. Revise as informações e envie novamente.</Text>
+        <Text style={styles.stepText}>3. Aguarde a nova análise da nossa equipe.</Text>
+      </View>
+
+      <TouchableOpacity
+        style={styles.primaryButton}
+        onPress={() => navigation.navigate('Onboarding')}
+      >
+        <Text style={styles.primaryButtonText}>Corrigir e reenviar</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.logoutButton} onPress={logout}>
+        <LogOut size={20} color="#EF4444" />
+        <Text style={styles.logoutButtonText}>Sair da Conta</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingTop: 80,
+    paddingBottom: 32,
+  },
+  iconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#FEE2E2',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  card: {
+    alignSelf: 'stretch',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 12,
+    textTransform: 'uppercase',
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 8,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  stepText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 6,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    height: 50,
+    backgroundColor: '#F97316',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  logoutButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ban, LogOut } from 'lucide-react-native';
+import { useAuth } from '../hooks/useAuth';
+import { presentError } from '../utils/presentError';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+
+export function DriverSuspendedScreen() {
+  const { driver, submitAppeal, logout } = useAuth();
+  const [appealMessage, setAppealMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isAppealSent, setIsAppealSent] = useState(false);
+
+  const handleSubmitAppeal = async () => {
+    if (appealMessage.trim().length < 10) {
+      Alert.alert('Erro', 'Descreva seu recurso com pelo menos 10 caracteres');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await submitAppeal(appealMessage.trim());
+      setIsAppealSent(true);
+    } catch (error) {
+      presentError(error, { title: 'Erro ao enviar recurso', onRetry: handleSubmitAppeal });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.iconContainer}>
+        <Ban size={48} color="#EF4444" />
+      </View>
+      <Text style={styles.title}>Conta suspensa</Text>
+      <Text style={styles.text}>
+        Sua conta está temporariamente impedida de receber entregas.
+      </Text>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Detalhes</Text>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Motivo</Text>
+          <Text style={styles.detailValue}>{driver?.suspensionReason || 'Não informado'}</Text>
+        </View>
+        {driver?.statusUpdatedAt && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Desde</Text>
+            <Text style={styles.detailValue}>{formatDate(driver.statusUpdatedAt)}</Text>
+          </View>
+        )}
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Até</Text>
+          <Text style={styles.detailValue}>
+            {driver?.suspendedUntil ? formatDate(driver.suspendedUntil) : 'Indeterminado'}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Recorrer da suspensão</Text>
+        {isAppealSent ? (
+          <Text style={styles.successText}>
+            Recurso enviado! Nossa equipe vai analisar e responder pelo seu email.
+          </Text>
+        ) : (
+          <>
+            <Text style={styles.hintText}>
+              Se você acredita que houve um engano, explique o que aconteceu.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Descreva seu recurso"
+              placeholderTextColor="#999"
+              multiline
+              textAlignVertical="top"
+              value={appealMessage}
+              onChangeText={setAppealMessage}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSubmitAppeal}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Enviar recurso</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.logoutButton} onPress={logout}>
+        <LogOut size={20} color="#EF4444" />
+        <Text style={styles.logoutButtonText}>Sair da Conta</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingTop: 80,
+    paddingBottom: 32,
+  },
+  iconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#FEE2E2',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  card: {
+    alignSelf: 'stretch',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 12,
+    textTransform: 'uppercase',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+    gap: 16,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    textAlign: 'right',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 12,
+  },
+  successText: {
+    fontSize: 14,
+    color: '#22C55E',
+  },
+  input: {
+    minHeight: 100,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: '#333',
+    backgroundColor: '#fff',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    height: 50,
+    backgroundColor: '#F97316',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  logoutButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
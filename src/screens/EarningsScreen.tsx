@@ -8,137 +8,84 @@ import {
   TouchableOpacity,
   FlatList,
 } from 'react-native';
-import api from '../services/api';
-
-interface EarningsSummary {
-  totalEarnings: number;
-  totalDeliveries: number;
-  totalBonuses: number;
-  totalTips: number;
-  pendingBalance: number;
-  paidOutAmount: number;
-  averagePerDelivery: number;
-}
-
-interface DailyEarnings {
-  date: string;
-  earnings: EarningItem[];
-  summary: {
-    total: number;
-    deliveryCount: number;
-    averagePerDelivery: number;
-  };
-}
-
-interface EarningItem {
-  id: string;
-  amount: number;
-  type: 'DELIVERY' | 'BONUS' | 'TIP';
-  description: string;
-  createdAt: string;
-  order?: {
-    orderNumber: string;
-    restaurant?: {
-      name: string;
-    };
-  };
-}
-
-interface EarningsResponse {
-  data: EarningItem[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  };
-}
+import { useAbortSignal } from '../hooks/useAbortSignal';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { isRequestCancelled } from '../services/api';
+import { financeApi } from '../services/driverApi';
+import { QUERY_KEYS } from '../services/queryCache';
+import { EarningItem } from '../types';
+import { LastUpdatedHint } from '../components/LastUpdatedHint';
 
 type TabType = 'today' | 'history' | 'summary';
 
+// First page is cached; further pages are loaded on scroll
+const HISTORY_PAGE_SIZE = 20;
+
 export function EarningsScreen() {
   const [activeTab, setActiveTab] = useState<TabType>('today');
-  const [summary, setSummary] = useState<EarningsSummary | null>(null);
-  const [todayEarnings, setTodayEarnings] = useState<DailyEarnings | null>(null);
-  const [earningsHistory, setEarningsHistory] = useState<EarningItem[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [olderEarnings, setOlderEarnings] = useState<EarningItem[]>([]);
   const [historyPage, setHistoryPage] = useState(1);
   const [hasMoreHistory, setHasMoreHistory] = useState(true);
+  const getSignal = useAbortSignal();
 
-  const fetchData = useCallback(async () => {
-    try {
-      const [summaryRes, todayRes] = await Promise.all([
-        api.get<EarningsSummary>('/driver-finance/summary'),
-        api.get<DailyEarnings>('/driver-finance/today'),
-      ]);
+  const summaryQuery = useCachedQuery(QUERY_KEYS.earningsSummary, (signal) =>
+    financeApi.getSummary({ signal })
+  );
+  const todayQuery = useCachedQuery(QUERY_KEYS.earningsToday, (signal) =>
+    financeApi.getToday({ signal })
+  );
+  const historyQuery = useCachedQuery(QUERY_KEYS.earnings(1, HISTORY_PAGE_SIZE), (signal) =>
+    financeApi.getEarnings(1, HISTORY_PAGE_SIZE, { signal })
+  );
 
-      setSummary(summaryRes.data);
-      setTodayEarnings(todayRes.data);
-    } catch (error) {
-      console.error('Error fetching earnings:', error);
-      // Set default values on error
-      setSummary({
-        totalEarnings: 0,
-        totalDeliveries: 0,
-        totalBonuses: 0,
-        totalTips: 0,
-        pendingBalance: 0,
-        paidOutAmount: 0,
-        averagePerDelivery: 0,
-      });
-      setTodayEarnings({
-        date: new Date().toISOString().split('T')[0],
-        earnings: [],
-        summary: { total: 0, deliveryCount: 0, averagePerDelivery: 0 },
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  const summary = summaryQuery.data;
+  const todayEarnings = todayQuery.data;
+  const firstHistoryPage = historyQuery.data;
+  const earningsHistory = [...(firstHistoryPage?.data ?? []), ...olderEarnings];
+  const isLoading = summaryQuery.isLoading || todayQuery.isLoading;
 
-  const fetchHistory = useCallback(async (page: number = 1, append: boolean = false) => {
-    try {
-      const response = await api.get<EarningsResponse>(`/driver-finance/earnings?page=${page}&limit=20`);
+  // A new first page (refresh or invalidation) restarts pagination
+  useEffect(() => {
+    setOlderEarnings([]);
+    setHistoryPage(1);
+    setHasMoreHistory((firstHistoryPage?.pagination.totalPages ?? 1) > 1);
+  }, [firstHistoryPage]);
 
-      if (append) {
-        setEarningsHistory(prev => [...prev, ...response.data.data]);
-      } else {
-        setEarningsHistory(response.data.data);
-      }
+  const fetchMoreHistory = useCallback(async (page: number) => {
+    try {
+      const response = await financeApi.getEarnings(page, HISTORY_PAGE_SIZE, {
+        signal: getSignal(),
+      });
 
-      setHasMoreHistory(page < response.data.pagination.totalPages);
+      setOlderEarnings(prev => [...prev, ...response.data]);
+      setHasMoreHistory(page < response.pagination.totalPages);
       setHistoryPage(page);
     } catch (error) {
+      if (isRequestCancelled(error)) return;
       console.error('Error fetching earnings history:', error);
     }
-  }, []);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  useEffect(() => {
-    if (activeTab === 'history' && earningsHistory.length === 0) {
-      fetchHistory(1);
-    }
-  }, [activeTab, earningsHistory.length, fetchHistory]);
+  }, [getSignal]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await fetchData();
-    if (activeTab === 'history') {
-      await fetchHistory(1);
-    }
+    await Promise.all([
+      summaryQuery.refresh(),
+      todayQuery.refresh(),
+      activeTab === 'history' ? historyQuery.refresh() : undefined,
+    ]);
     setIsRefreshing(false);
   };
 
   const loadMoreHistory = () => {
-    if (hasMoreHistory && !isLoading) {
-      fetchHistory(historyPage + 1, true);
+    if (hasMoreHistory && !isLoading && firstHistoryPage) {
+      fetchMoreHistory(historyPage + 1);
     }
   };
 
+  // Hint for the data shown on the active tab
+  const activeQuery = activeTab === 'today' ? todayQuery : activeTab === 'history' ? historyQuery : summaryQuery;
+
   const formatCurrency = (value: number) => {
     return value.toLocaleString('pt-BR', {
       style: 'currency',
@@ -213,6 +160,11 @@ export function EarningsScreen() {
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.title}>Meus Ganhos</Text>
+        <LastUpdatedHint
+          updatedAt={activeQuery.updatedAt}
+          isRefreshing={activeQuery.isValidating && !isRefreshing}
+          style={styles.lastUpdated}
+        />
         <View style={styles.balanceCard}>
           <Text style={styles.balanceLabel}>Saldo Disponível</Text>
           <Text style={styles.balanceValue}>
@@ -486,6 +438,11 @@ const styles = StyleSheet.create({
     color: '#fff',
     marginBottom: 16,
   },
+  lastUpdated: {
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: -12,
+    marginBottom: 12,
+  },
   balanceCard: {
     backgroundColor: 'rgba(255,255,255,0.2)',
     borderRadius: 12,
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { ArrowLeft } from 'lucide-react-native';
+import { useAuth } from '../hooks/useAuth';
+import { authApi } from '../services/driverApi';
+import { getErrorMessage } from '../utils/presentError';
+
+type Step = 'email' | 'code' | 'password';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export function ForgotPasswordScreen({ route, navigation }: any) {
+  const { login } = useAuth();
+  const [step, setStep] = useState<Step>('email');
+  const [email, setEmail] = useState(route.params?.email || '');
+  const [code, setCode] = useState('');
+  const [resetToken, setResetToken] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const goToStep = (nextStep: Step) => {
+    setError(null);
+    setStep(nextStep);
+  };
+
+  const handleRequestCode = async () => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setError('Informe um email válido');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await authApi.forgotPassword(email.trim());
+      goToStep('code');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (!/^\d{6}$/.test(code)) {
+      setError('O código deve ter 6 dígitos');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setResetToken(await authApi.verifyResetCode(email.trim(), code));
+      goToStep('password');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('As senhas não coincidem');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await authApi.resetPassword(resetToken, password);
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      // Navigator switches to the authenticated stack once login succeeds
+      await login(email.trim(), password);
+    } catch (err) {
+      setIsLoading(false);
+      setError(`Senha alterada, mas não foi possível entrar. ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleBack = () => {
+    if (step === 'email') {
+      navigation.goBack();
+    } else if (step === 'code') {
+      goToStep('email');
+    } else {
+      goToStep('code');
+    }
+  };
+
+  const getStepInfo = () => {
+    switch (step) {
+      case 'email':
+        return {
+          title: 'Esqueci minha senha',
+          subtitle: 'Informe o email da sua conta para receber um código de recuperação',
+          action: 'Enviar código',
+          onSubmit: handleRequestCode,
+        };
+      case 'code':
+        return {
+          title: 'Digite o código',
+          subtitle: `Enviamos um código de 6 dígitos para ${email.trim()}`,
+          action: 'Verificar código',
+          onSubmit: handleVerifyCode,
+        };
+      case 'password':
+        return {
+          title: 'Nova senha',
+          subtitle: 'Escolha uma nova senha para acessar sua conta',
+          action: 'Salvar e entrar',
+          onSubmit: handleResetPassword,
+        };
+    }
+  };
+
+  const stepInfo = getStepInfo();
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack} disabled={isLoading}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.title}>{stepInfo.title}</Text>
+        <Text style={styles.subtitle}>{stepInfo.subtitle}</Text>
+
+        {step === 'email' && (
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Email</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="seu@email.com"
+              placeholderTextColor="#999"
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+              value={email}
+              onChangeText={setEmail}
+            />
+          </View>
+        )}
+
+        {step === 'code' && (
+          <>
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Código</Text>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                placeholder="000000"
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+                maxLength={6}
+                value={code}
+                onChangeText={(value) => setCode(value.replace(/\D/g, ''))}
+              />
+            </View>
+            <TouchableOpacity onPress={handleRequestCode} disabled={isLoading}>
+              <Text style={styles.link}>Reenviar código</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {step === 'password' && (
+          <>
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Nova senha</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="••••••••"
+                placeholderTextColor="#999"
+                secureTextEntry
+                value={password}
+                onChangeText={setPassword}
+              />
+            </View>
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Confirmar senha</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="••••••••"
+                placeholderTextColor="#999"
+                secureTextEntry
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+              />
+            </View>
+          </>
+        )}
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.button, isLoading && styles.buttonDisabled]}
+          onPress={stepInfo.onSubmit}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>{stepInfo.action}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingTop: 50,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingTop: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 32,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    color: '#333',
+    backgroundColor: '#fff',
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  link: {
+    color: '#F97316',
+    fontWeight: '600',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#EF4444',
+    marginBottom: 12,
+  },
+  button: {
+    height: 50,
+    backgroundColor: '#F97316',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -7,33 +7,26 @@ import {
   TouchableOpacity,
   RefreshControl,
 } from 'react-native';
-import api from '../services/api';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { deliveriesApi } from '../services/driverApi';
+import { QUERY_KEYS } from '../services/queryCache';
 import { DeliveryHistory } from '../types';
+import { LastUpdatedHint } from '../components/LastUpdatedHint';
 
 export function HistoryScreen() {
-  const [deliveries, setDeliveries] = useState<DeliveryHistory[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-
-  const fetchHistory = useCallback(async () => {
-    try {
-      const response = await api.get('/drivers/deliveries/history');
-      setDeliveries(response.data.data || []);
-    } catch (error) {
-      console.error('Error fetching history:', error);
-      setDeliveries([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchHistory();
-  }, [fetchHistory]);
+  const {
+    data,
+    updatedAt,
+    isLoading,
+    isValidating,
+    refresh,
+  } = useCachedQuery(QUERY_KEYS.deliveryHistory, (signal) => deliveriesApi.getHistory({ signal }));
+  const deliveries = data ?? [];
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await fetchHistory();
+    await refresh();
     setIsRefreshing(false);
   };
 
@@ -66,25 +59,15 @@ export function HistoryScreen() {
     }
   };
 
-  const renderDeliveryItem = ({ item }: { item: any }) => {
+  const renderDeliveryItem = ({ item }: { item: DeliveryHistory }) => {
     const badge = getStatusBadge(item.status);
-    // Handle restaurant as object with name property
-    const restaurantName = typeof item.restaurant === 'object'
-      ? item.restaurant?.name
-      : item.restaurant || 'Restaurante';
-    // Handle customer - might be object or string
-    const customerName = typeof item.customer === 'object'
-      ? item.customer?.fullName
-      : item.customer || 'Cliente';
-    // Handle date - could be deliveredAt or completedAt
-    const completedDate = item.deliveredAt || item.completedAt;
 
     return (
       <View style={styles.deliveryCard}>
         <View style={styles.deliveryHeader}>
           <View>
-            <Text style={styles.restaurantName}>{restaurantName}</Text>
-            <Text style={styles.customerName}>Para: {customerName}</Text>
+            <Text style={styles.restaurantName}>{item.restaurant}</Text>
+            <Text style={styles.customerName}>Para: {item.customer}</Text>
           </View>
           <View style={[styles.statusBadge, { backgroundColor: badge.bg }]}>
             <Text style={[styles.statusText, { color: badge.color }]}>
@@ -93,8 +76,8 @@ export function HistoryScreen() {
           </View>
         </View>
         <View style={styles.deliveryFooter}>
-          <Text style={styles.date}>{completedDate ? formatDate(completedDate) : '-'}</Text>
-          <Text style={styles.fee}>{formatCurrency(Number(item.deliveryFee || 0))}</Text>
+          <Text style={styles.date}>{item.completedAt ? formatDate(item.completedAt) : '-'}</Text>
+          <Text style={styles.fee}>{formatCurrency(item.deliveryFee)}</Text>
         </View>
       </View>
     );
@@ -112,6 +95,7 @@ export function HistoryScreen() {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Histórico de Entregas</Text>
+        <LastUpdatedHint updatedAt={updatedAt} isRefreshing={isValidating && !isRefreshing} />
       </View>
 
       {deliveries.length === 0 ? (
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -6,7 +6,6 @@ import {
   FlatList,
   TouchableOpacity,
   RefreshControl,
-  Alert,
   Vibration,
 } from 'react-native';
 import {
@@ -18,75 +17,129 @@ import {
   Search,
   Moon,
   AlertTriangle,
+  CloudOff,
 } from 'lucide-react-native';
-import { useFocusEffect } from '@react-navigation/native';
+import { useFocusEffect, useIsFocused } from '@react-navigation/native';
 import { useAuth } from '../hooks/useAuth';
-import api from '../services/api';
-import { Delivery } from '../types';
-import { useDriverSocket } from '../hooks/useOrdersSocket';
-// Temporarily disabled to debug crash
-// import { useLocationTracking } from '../hooks/useLocationTracking';
+import { useAppLock } from '../hooks/useAppLock';
+import { useStatusOutbox } from '../hooks/useStatusOutbox';
+import { useAbortSignal } from '../hooks/useAbortSignal';
+import { isRequestCancelled } from '../services/api';
+import { deliveriesApi } from '../services/driverApi';
+import { DeclineReason, Delivery, DeliveryOffer } from '../types';
+import { presentError } from '../utils/presentError';
+import { useDriverSocket, useSocketReconnect } from '../hooks/useOrdersSocket';
+import { useDeclineDelivery } from '../hooks/useDeclineDelivery';
+import { useShiftStats } from '../hooks/useShiftStats';
+import { useConnectionDiagnostics } from '../hooks/useConnectionDiagnostics';
+import { DeliveryOfferModal } from '../components/DeliveryOfferModal';
+import { DeclineReasonModal } from '../components/DeclineReasonPicker';
+import { ConnectionIndicator } from '../components/ConnectionIndicator';
+import { useLocationTracking } from '../hooks/useLocationTracking';
+
+// Countdown for offers pushed without a server TTL
+const DEFAULT_OFFER_TTL_MS = 30 * 1000;
 
 export function HomeScreen({ navigation }: any) {
   const { driver, isOnline, toggleOnline } = useAuth();
+  const { isLocked } = useAppLock();
+  const isFocused = useIsFocused();
+  const { pendingChanges } = useStatusOutbox();
+  const getSignal = useAbortSignal();
   const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [offer, setOffer] = useState<DeliveryOffer | null>(null);
+  // Set while the driver is carrying an order; the server refuses a second one
+  const [activeDeliveryId, setActiveDeliveryId] = useState<string | null>(null);
+  // Card whose "Recusar" was tapped, waiting for a reason
+  const [decliningDelivery, setDecliningDelivery] = useState<Delivery | null>(null);
+  const { declineDelivery, isDeclining } = useDeclineDelivery();
+  const shiftStats = useShiftStats();
+  const { diagnostics } = useConnectionDiagnostics();
   const isFirstLoad = useRef(true); // Track if this is the first time loading
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isTogglingOnline, setIsTogglingOnline] = useState(false);
 
-  // Location tracking - temporarily disabled to debug crash
-  // const { location, isTracking, error: locationError } = useLocationTracking({
-  //   driverId: driver?.id || null,
-  //   isOnline,
-  // });
-  const location = null;
-  const isTracking = false;
-  const locationError = null;
+  // Share the driver's position while waiting for offers; during a delivery the
+  // CurrentDelivery screen tracks it along with the order id
+  const { isTracking, error: locationError } = useLocationTracking({
+    driverId: driver?.id || null,
+    isOnline: isOnline && !activeDeliveryId,
+  });
+
+  // Home stays mounted under the delivery screens and the other tabs, and a Modal
+  // would cover those as well as the PIN lock screen
+  const canShowOffers = isFocused && !activeDeliveryId && !isLocked;
 
   // Handle new delivery from WebSocket
-  const handleNewAvailableDelivery = useCallback((order: any) => {
+  const handleNewAvailableDelivery = useCallback((delivery: Delivery, expiresAt: number | null) => {
+    // Replayed after a reconnect but already past its TTL
+    if (expiresAt !== null && expiresAt <= Date.now()) return;
+
     setDeliveries((prev) => {
       // Check if order already exists
-      if (prev.some((d) => d.id === order.id)) {
+      if (prev.some((d) => d.id === delivery.id)) {
         return prev;
       }
       // Vibrate to alert driver
       Vibration.vibrate([0, 500, 200, 500]);
       // Add new delivery to the beginning
-      return [order, ...prev];
+      return [delivery, ...prev];
     });
-  }, []);
+
+    // The delivery still shows up in the list for when the driver comes back
+    if (!canShowOffers) return;
+
+    // One offer on screen at a time; later ones wait in the list
+    setOffer(
+      (current) =>
+        current ?? {
+          delivery,
+          expiresAt: expiresAt ?? Date.now() + DEFAULT_OFFER_TTL_MS,
+          hasServerTtl: expiresAt !== null,
+        }
+    );
+  }, [canShowOffers]);
 
   // Handle delivery taken by another driver
   const handleDeliveryTaken = useCallback((orderId: string) => {
     setDeliveries((prev) => prev.filter((d) => d.id !== orderId));
+    setOffer((current) => (current?.delivery.id === orderId ? null : current));
   }, []);
 
+  // Offers only make sense while online and with nothing covering Home
+  useEffect(() => {
+    if (!isOnline || !canShowOffers) {
+      setOffer(null);
+    }
+  }, [isOnline, canShowOffers]);
+
   // Connect to WebSocket when online
   useDriverSocket({
-    driverId: isOnline ? driver?.id : undefined,
+    enabled: isOnline,
     onNewAvailableDelivery: handleNewAvailableDelivery,
     onDeliveryTaken: handleDeliveryTaken,
   });
 
-  // Check for active delivery on mount
-  const checkActiveDelivery = useCallback(async () => {
-    try {
-      const response = await api.get('/drivers/deliveries/current');
-      if (response.data && response.data.id) {
-        // Driver has an active delivery, navigate to it
-        console.log('Found active delivery:', response.data.id);
-        navigation.navigate('CurrentDelivery', { deliveryId: response.data.id });
-        return true;
-      }
-    } catch (error: any) {
-      // 404 means no active delivery, which is fine
-      if (error.response?.status !== 404) {
+  // Check for active delivery; only the first load navigates to it
+  const checkActiveDelivery = useCallback(
+    async (openIfActive: boolean) => {
+      try {
+        const currentDelivery = await deliveriesApi.getCurrent({ signal: getSignal() });
+        setActiveDeliveryId(currentDelivery?.id ?? null);
+        if (currentDelivery && openIfActive) {
+          // Driver has an active delivery, navigate to it
+          console.log('Found active delivery:', currentDelivery.id);
+          navigation.navigate('CurrentDelivery', { deliveryId: currentDelivery.id });
+          return true;
+        }
+      } catch (error) {
+        if (isRequestCancelled(error)) return true;
         console.error('Error checking active delivery:', error);
       }
-    }
-    return false;
-  }, [navigation]);
+      return false;
+    },
+    [navigation, getSignal]
+  );
 
   const fetchDeliveries = useCallback(async () => {
     if (!isOnline) {
@@ -95,13 +148,21 @@ export function HomeScreen({ navigation }: any) {
     }
 
     try {
-      const response = await api.get('/drivers/deliveries/available');
-      setDeliveries(response.data || []);
+      const available = await deliveriesApi.getAvailable({ signal: getSignal() });
+      setDeliveries(available);
+      // An offer missing from the fresh list was taken or withdrawn meanwhile
+      setOffer((current) =>
+        current && available.some((d) => d.id === current.delivery.id) ? current : null
+      );
     } catch (error) {
+      if (isRequestCancelled(error)) return;
       console.error('Error fetching deliveries:', error);
       setDeliveries([]);
     }
-  }, [isOnline]);
+  }, [isOnline, getSignal]);
+
+  // Offers taken or published while the socket was down only show up in a fresh list
+  useSocketReconnect(fetchDeliveries);
 
   // Reload deliveries when screen gains focus
   useFocusEffect(
@@ -110,13 +171,15 @@ export function HomeScreen({ navigation }: any) {
       // This prevents infinite loop when user intentionally goes back
       if (isFirstLoad.current) {
         isFirstLoad.current = false;
-        checkActiveDelivery().then((hasActive) => {
+        checkActiveDelivery(true).then((hasActive) => {
           if (!hasActive) {
             fetchDeliveries();
           }
         });
       } else {
-        // On subsequent focuses, just fetch available deliveries
+        // On subsequent focuses, fetch available deliveries and see whether the
+        // delivery the driver left is still active
+        checkActiveDelivery(false);
         fetchDeliveries();
       }
     }, [checkActiveDelivery, fetchDeliveries])
@@ -133,7 +196,10 @@ export function HomeScreen({ navigation }: any) {
     try {
       await toggleOnline();
     } catch (error) {
-      Alert.alert('Erro', 'Não foi possível alterar o status');
+      presentError(error, {
+        title: 'Não foi possível alterar o status',
+        onRetry: handleToggleOnline,
+      });
     } finally {
       setIsTogglingOnline(false);
     }
@@ -145,11 +211,51 @@ export function HomeScreen({ navigation }: any) {
 
   const handleAcceptDelivery = async (deliveryId: string) => {
     try {
-      await api.post(`/drivers/deliveries/${deliveryId}/accept`);
+      await deliveriesApi.accept(deliveryId);
+      setActiveDeliveryId(deliveryId);
       navigation.navigate('CurrentDelivery', { deliveryId });
-    } catch (error: any) {
-      const message = error.response?.data?.message || 'Erro ao aceitar entrega';
-      Alert.alert('Erro', message);
+    } catch (error) {
+      presentError(error, {
+        title: 'Erro ao aceitar entrega',
+        onRetry: () => handleAcceptDelivery(deliveryId),
+        onRefresh: fetchDeliveries,
+      });
+    }
+  };
+
+  const handleAcceptOffer = (acceptedOffer: DeliveryOffer) => {
+    setOffer(null);
+    handleAcceptDelivery(acceptedOffer.delivery.id);
+  };
+
+  const removeDelivery = (deliveryId: string) => {
+    setDeliveries((prev) => prev.filter((d) => d.id !== deliveryId));
+  };
+
+  const handleDeclineOffer = async (
+    declinedOffer: DeliveryOffer,
+    reason: DeclineReason,
+    note?: string
+  ) => {
+    if (await declineDelivery(declinedOffer.delivery.id, reason, note)) {
+      setOffer(null);
+      removeDelivery(declinedOffer.delivery.id);
+    }
+  };
+
+  const handleDeclineCard = async (reason: DeclineReason, note?: string) => {
+    if (!decliningDelivery) return;
+    if (await declineDelivery(decliningDelivery.id, reason, note)) {
+      removeDelivery(decliningDelivery.id);
+      setDecliningDelivery(null);
+    }
+  };
+
+  // Without a server TTL the order may still be available, so it stays in the list
+  const handleOfferExpired = (expiredOffer: DeliveryOffer) => {
+    setOffer(null);
+    if (expiredOffer.hasServerTtl) {
+      removeDelivery(expiredOffer.delivery.id);
     }
   };
 
@@ -177,7 +283,7 @@ export function HomeScreen({ navigation }: any) {
       >
         <View style={styles.deliveryHeader}>
           <Text style={styles.restaurantName}>{item.restaurant?.name || 'Restaurante'}</Text>
-          <Text style={styles.deliveryFee}>{formatCurrency(Number(item.deliveryFee || 0))}</Text>
+          <Text style={styles.deliveryFee}>{formatCurrency(item.deliveryFee)}</Text>
         </View>
 
         <View style={styles.deliveryInfo}>
@@ -206,12 +312,20 @@ export function HomeScreen({ navigation }: any) {
           </View>
         )}
 
-        <TouchableOpacity
-          style={styles.acceptButton}
-          onPress={() => handleAcceptDelivery(item.id)}
-        >
-          <Text style={styles.acceptButtonText}>Aceitar Entrega</Text>
-        </TouchableOpacity>
+        <View style={styles.cardActions}>
+          <TouchableOpacity
+            style={styles.declineButton}
+            onPress={() => setDecliningDelivery(item)}
+          >
+            <Text style={styles.declineButtonText}>Recusar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.acceptButton}
+            onPress={() => handleAcceptDelivery(item.id)}
+          >
+            <Text style={styles.acceptButtonText}>Aceitar Entrega</Text>
+          </TouchableOpacity>
+        </View>
       </TouchableOpacity>
     );
   };
@@ -224,12 +338,33 @@ export function HomeScreen({ navigation }: any) {
           <Text style={styles.subGreeting}>
             {isOnline ? 'Você está online' : 'Você está offline'}
           </Text>
+          {isOnline && shiftStats && shiftStats.declines > 0 && (
+            <Text style={styles.shiftStats}>
+              {shiftStats.declines === 1
+                ? '1 entrega recusada neste turno'
+                : `${shiftStats.declines} entregas recusadas neste turno`}
+            </Text>
+          )}
+          <ConnectionIndicator
+            diagnostics={diagnostics}
+            onPress={() => navigation.navigate('ConnectionDiagnostics')}
+          />
           {isOnline && isTracking && (
             <View style={styles.trackingRow}>
               <Navigation size={12} color="#16A34A" />
               <Text style={styles.trackingIndicator}>GPS ativo</Text>
             </View>
           )}
+          {pendingChanges.length > 0 && (
+            <View style={styles.trackingRow}>
+              <CloudOff size={12} color="#B45309" />
+              <Text style={styles.syncPending}>
+                {pendingChanges.length === 1
+                  ? '1 atualização aguardando sincronização'
+                  : `${pendingChanges.length} atualizações aguardando sincronização`}
+              </Text>
+            </View>
+          )}
           {locationError && (
             <View style={styles.trackingRow}>
               <AlertTriangle size={12} color="#DC2626" />
@@ -260,12 +395,12 @@ export function HomeScreen({ navigation }: any) {
           <View style={styles.statItem}>
             <View style={styles.statValueRow}>
               <Star size={14} color="#F7A922" fill="#F7A922" />
-              <Text style={styles.statValue}>{Number(driver.rating ?? 0).toFixed(1)}</Text>
+              <Text style={styles.statValue}>{driver.rating.toFixed(1)}</Text>
             </View>
             <Text style={styles.statLabel}>Avaliação</Text>
           </View>
           <View style={styles.statItem}>
-            <Text style={styles.statValue}>{formatCurrency(Number(driver.totalEarnings ?? 0))}</Text>
+            <Text style={styles.statValue}>{formatCurrency(driver.totalEarnings)}</Text>
             <Text style={styles.statLabel}>Total</Text>
           </View>
         </View>
@@ -310,6 +445,21 @@ export function HomeScreen({ navigation }: any) {
           }
         />
       )}
+
+      <DeliveryOfferModal
+        offer={offer}
+        onAccept={handleAcceptOffer}
+        onDecline={handleDeclineOffer}
+        onExpire={handleOfferExpired}
+        isDeclining={isDeclining}
+      />
+
+      <DeclineReasonModal
+        visible={!!decliningDelivery}
+        onSubmit={handleDeclineCard}
+        onCancel={() => setDecliningDelivery(null)}
+        isSubmitting={isDeclining}
+      />
     </View>
   );
 }
@@ -340,6 +490,11 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  shiftStats: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
   trackingRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -355,6 +510,11 @@ const styles = StyleSheet.create({
     color: '#EF4444',
     marginTop: 4,
   },
+  syncPending: {
+    fontSize: 12,
+    color: '#B45309',
+    marginTop: 4,
+  },
   onlineToggle: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -514,7 +674,25 @@ const styles = StyleSheet.create({
     color: '#666',
     marginRight: 16,
   },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  declineButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#DC2626',
+    alignItems: 'center',
+  },
+  declineButtonText: {
+    color: '#DC2626',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   acceptButton: {
+    flex: 1,
     backgroundColor: '#F97316',
     paddingVertical: 12,
     borderRadius: 8,
@@ -9,14 +9,34 @@ import {
   Platform,
   Alert,
   ActivityIndicator,
+  Pressable,
 } from 'react-native';
 import { useAuth } from '../hooks/useAuth';
+import { useEnvironment } from '../hooks/useEnvironment';
+import {
+  CAN_SWITCH_ENVIRONMENT,
+  ENVIRONMENTS,
+  EnvironmentName,
+  setEnvironment,
+} from '../services/environment';
+import { presentError } from '../utils/presentError';
+import { formatPhone, isValidMobilePhone, onlyDigits, toE164Phone } from '../utils/validation';
+
+type LoginMethod = 'email' | 'phone';
 
-export function LoginScreen() {
-  const { login } = useAuth();
+export function LoginScreen({ navigation }: any) {
+  const { login, requestPhoneCode, loginWithPhone, sessionExpiredReason } = useAuth();
+  const [method, setMethod] = useState<LoginMethod>('email');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [isCodeSent, setIsCodeSent] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const environment = useEnvironment();
+  const [showEnvironments, setShowEnvironments] = useState(false);
+
+  const normalizedPhone = toE164Phone(phone);
 
   const handleLogin = async () => {
     if (!email || !password) {
@@ -27,14 +47,174 @@ export function LoginScreen() {
     setIsLoading(true);
     try {
       await login(email, password);
-    } catch (error: any) {
-      const message = error.response?.data?.message || error.message || 'Erro ao fazer login';
-      Alert.alert('Erro', message);
+    } catch (error) {
+      presentError(error, { title: 'Erro ao fazer login', onRetry: handleLogin });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequestCode = async () => {
+    if (!isValidMobilePhone(phone)) {
+      Alert.alert('Erro', 'Informe um celular válido com DDD');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await requestPhoneCode(normalizedPhone);
+      setCode('');
+      setIsCodeSent(true);
+    } catch (error) {
+      presentError(error, { title: 'Erro ao enviar o código', onRetry: handleRequestCode });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePhoneLogin = async () => {
+    if (!/^\d{6}$/.test(code)) {
+      Alert.alert('Erro', 'O código deve ter 6 dígitos');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await loginWithPhone(normalizedPhone, code);
+    } catch (error) {
+      presentError(error, { title: 'Código inválido ou expirado', onRetry: handlePhoneLogin });
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Hidden behind a long press on the logo so it isn't toggled by accident
+  const handleRevealEnvironments = () => {
+    if (CAN_SWITCH_ENVIRONMENT) {
+      setShowEnvironments((visible) => !visible);
+    }
+  };
+
+  const handleSelectEnvironment = (name: EnvironmentName) => {
+    if (name === environment.name) return;
+
+    Alert.alert(
+      'Trocar ambiente',
+      `Conectar ao ambiente ${ENVIRONMENTS[name].label}?\n${ENVIRONMENTS[name].apiUrl}`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Trocar',
+          onPress: async () => {
+            try {
+              await setEnvironment(name);
+            } catch (error) {
+              presentError(error, { title: 'Não foi possível trocar o ambiente' });
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleChangeMethod = (newMethod: LoginMethod) => {
+    setMethod(newMethod);
+    setIsCodeSent(false);
+    setCode('');
+  };
+
+  const renderEmailForm = () => (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Email</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="seu@email.com"
+          placeholderTextColor="#999"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+          value={email}
+          onChangeText={setEmail}
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Senha</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="••••••••"
+          placeholderTextColor="#999"
+          secureTextEntry
+          value={password}
+          onChangeText={setPassword}
+        />
+      </View>
+
+      <TouchableOpacity
+        style={styles.forgotPassword}
+        onPress={() => navigation.navigate('ForgotPassword', { email })}
+        disabled={isLoading}
+      >
+        <Text style={styles.footerLink}>Esqueci minha senha</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderPhoneForm = () => (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Celular</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="(11) 98765-4321"
+          placeholderTextColor="#999"
+          keyboardType="phone-pad"
+          editable={!isCodeSent}
+          value={phone}
+          onChangeText={(value) => setPhone(formatPhone(value))}
+        />
+      </View>
+
+      {isCodeSent && (
+        <>
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Código recebido por SMS</Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder="000000"
+              placeholderTextColor="#999"
+              keyboardType="number-pad"
+              maxLength={6}
+              value={code}
+              onChangeText={(value) => setCode(onlyDigits(value))}
+            />
+          </View>
+
+          <View style={styles.codeActions}>
+            <TouchableOpacity onPress={() => setIsCodeSent(false)} disabled={isLoading}>
+              <Text style={styles.footerLink}>Trocar número</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleRequestCode} disabled={isLoading}>
+              <Text style={styles.footerLink}>Reenviar código</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </>
+  );
+
+  const getSubmitInfo = () => {
+    if (method === 'email') {
+      return { label: 'Entrar', onPress: handleLogin };
+    }
+    return isCodeSent
+      ? { label: 'Entrar', onPress: handlePhoneLogin }
+      : { label: 'Enviar código', onPress: handleRequestCode };
+  };
+
+  const submitInfo = getSubmitInfo();
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -42,49 +222,82 @@ export function LoginScreen() {
     >
       <View style={styles.content}>
         <View style={styles.header}>
-          <View style={styles.iconContainer}>
+          <Pressable
+            style={styles.iconContainer}
+            onLongPress={handleRevealEnvironments}
+            delayLongPress={1500}
+          >
             <Text style={styles.icon}>🛵</Text>
-          </View>
+          </Pressable>
           <Text style={styles.title}>FoodApp Entregador</Text>
           <Text style={styles.subtitle}>Entre com sua conta para começar a entregar</Text>
+          {CAN_SWITCH_ENVIRONMENT && environment.name !== 'production' && (
+            <Text style={styles.environmentTag}>Ambiente: {environment.label}</Text>
+          )}
         </View>
 
-        <View style={styles.form}>
-          <View style={styles.inputContainer}>
-            <Text style={styles.label}>Email</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="seu@email.com"
-              placeholderTextColor="#999"
-              keyboardType="email-address"
-              autoCapitalize="none"
-              autoCorrect={false}
-              value={email}
-              onChangeText={setEmail}
-            />
+        {showEnvironments && (
+          <View style={styles.environmentSelector}>
+            {(Object.keys(ENVIRONMENTS) as EnvironmentName[]).map((name) => (
+              <TouchableOpacity
+                key={name}
+                style={[
+                  styles.environmentOption,
+                  environment.name === name && styles.environmentOptionActive,
+                ]}
+                onPress={() => handleSelectEnvironment(name)}
+                disabled={isLoading}
+              >
+                <Text
+                  style={[
+                    styles.environmentText,
+                    environment.name === name && styles.environmentTextActive,
+                  ]}
+                >
+                  {ENVIRONMENTS[name].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
+        )}
 
-          <View style={styles.inputContainer}>
-            <Text style={styles.label}>Senha</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="••••••••"
-              placeholderTextColor="#999"
-              secureTextEntry
-              value={password}
-              onChangeText={setPassword}
-            />
+        {sessionExpiredReason && (
+          <View style={styles.expiredBanner}>
+            <Text style={styles.expiredText}>
+              {sessionExpiredReason === 'session_revoked'
+                ? 'Sua sessão foi encerrada em outro dispositivo. Entre novamente para continuar.'
+                : 'Sua sessão expirou. Entre novamente para continuar de onde parou.'}
+            </Text>
           </View>
+        )}
+
+        <View style={styles.methodToggle}>
+          {(['email', 'phone'] as LoginMethod[]).map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.methodOption, method === item && styles.methodOptionActive]}
+              onPress={() => handleChangeMethod(item)}
+              disabled={isLoading}
+            >
+              <Text style={[styles.methodText, method === item && styles.methodTextActive]}>
+                {item === 'email' ? 'Email' : 'Celular'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.form}>
+          {method === 'email' ? renderEmailForm() : renderPhoneForm()}
 
           <TouchableOpacity
             style={[styles.button, isLoading && styles.buttonDisabled]}
-            onPress={handleLogin}
+            onPress={submitInfo.onPress}
             disabled={isLoading}
           >
             {isLoading ? (
               <ActivityIndicator color="#fff" />
             ) : (
-              <Text style={styles.buttonText}>Entrar</Text>
+              <Text style={styles.buttonText}>{submitInfo.label}</Text>
             )}
           </TouchableOpacity>
         </View>
@@ -137,6 +350,48 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  environmentTag: {
+    marginTop: 8,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+  environmentSelector: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  environmentOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  environmentOptionActive: {
+    borderColor: '#F97316',
+    backgroundColor: '#FFF3E0',
+  },
+  environmentText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  environmentTextActive: {
+    color: '#F97316',
+    fontWeight: '600',
+  },
+  expiredBanner: {
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  expiredText: {
+    fontSize: 14,
+    color: '#EF4444',
+    textAlign: 'center',
+  },
   form: {
     marginBottom: 24,
   },
@@ -159,6 +414,44 @@ const styles = StyleSheet.create({
     color: '#333',
     backgroundColor: '#fff',
   },
+  methodToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 24,
+  },
+  methodOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  methodOptionActive: {
+    backgroundColor: '#fff',
+  },
+  methodText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#999',
+  },
+  methodTextActive: {
+    color: '#F97316',
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  codeActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  forgotPassword: {
+    alignSelf: 'flex-end',
+    marginBottom: 8,
+  },
   button: {
     height: 50,
     backgroundColor: '#F97316',
@@ -0,0 +1,471 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Bike, Car, Check } from 'lucide-react-native';
+import { useAuth } from '../hooks/useAuth';
+import { Driver } from '../types';
+import {
+  formatCpf,
+  formatPhone,
+  isValidCpf,
+  isValidMobilePhone,
+  isValidVehiclePlate,
+  onlyDigits,
+  toE164Phone,
+} from '../utils/validation';
+import { presentError } from '../utils/presentError';
+
+type VehicleType = Driver['vehicleType'];
+
+type FormErrors = Partial<Record<'fullName' | 'phone' | 'cpf' | 'vehicleType' | 'vehiclePlate', string>>;
+
+const STEPS = ['Dados pessoais', 'Veículo', 'Revisão'];
+
+const VEHICLE_OPTIONS: { type: VehicleType; label: string }[] = [
+  { type: 'MOTORCYCLE', label: 'Moto' },
+  { type: 'BICYCLE', label: 'Bicicleta' },
+  { type: 'CAR', label: 'Carro' },
+];
+
+export function OnboardingScreen({ navigation }: any) {
+  const { driver, registerDriver, resubmitDriver, logout } = useAuth();
+  // A rejected driver reaches this screen to correct and resubmit their data
+  const isResubmission = !!driver;
+  const [step, setStep] = useState(0);
+  const [fullName, setFullName] = useState(driver?.fullName || '');
+  const [phone, setPhone] = useState(formatPhone(driver?.phone || ''));
+  const [cpf, setCpf] = useState(formatCpf(driver?.cpf || ''));
+  const [vehicleType, setVehicleType] = useState<VehicleType | null>(driver?.vehicleType || null);
+  const [vehiclePlate, setVehiclePlate] = useState(driver?.vehiclePlate || '');
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const requiresPlate = vehicleType !== null && vehicleType !== 'BICYCLE';
+
+  const validatePersonalData = () => {
+    const newErrors: FormErrors = {};
+    if (fullName.trim().split(/\s+/).length < 2) {
+      newErrors.fullName = 'Informe seu nome completo';
+    }
+    if (!isValidMobilePhone(phone)) {
+      newErrors.phone = 'Informe um celular válido com DDD';
+    }
+    if (!isValidCpf(cpf)) {
+      newErrors.cpf = 'CPF inválido';
+    }
+    return newErrors;
+  };
+
+  const validateVehicle = () => {
+    const newErrors: FormErrors = {};
+    if (!vehicleType) {
+      newErrors.vehicleType = 'Selecione o tipo de veículo';
+    }
+    if (requiresPlate && !isValidVehiclePlate(vehiclePlate)) {
+      newErrors.vehiclePlate = 'Placa inválida';
+    }
+    return newErrors;
+  };
+
+  const handleNext = () => {
+    const stepErrors = step === 0 ? validatePersonalData() : validateVehicle();
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length === 0) {
+      setStep(step + 1);
+    }
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    setStep(step - 1);
+  };
+
+  const handleSubmit = async () => {
+    if (!vehicleType) return;
+
+    setIsSubmitting(true);
+    try {
+      const submit = isResubmission ? resubmitDriver : registerDriver;
+      await submit({
+        fullName: fullName.trim(),
+        phone: toE164Phone(phone),
+        cpf: onlyDigits(cpf),
+        vehicleType,
+        vehiclePlate: requiresPlate
+          ? vehiclePlate.replace(/[\s-]/g, '').toUpperCase()
+          : undefined,
+      });
+    } catch (error) {
+      presentError(error, { title: 'Erro ao enviar cadastro' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderField = (
+    label: string,
+    field: keyof FormErrors,
+    input: React.ReactNode
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>{label}</Text>
+      {input}
+      {errors[field] && <Text style={styles.errorText}>{errors[field]}</Text>}
+    </View>
+  );
+
+  const renderPersonalData = () => (
+    <>
+      {renderField(
+        'Nome completo',
+        'fullName',
+        <TextInput
+          style={[styles.input, errors.fullName && styles.inputError]}
+          placeholder="Seu nome completo"
+          placeholderTextColor="#999"
+          autoCapitalize="words"
+          value={fullName}
+          onChangeText={setFullName}
+        />
+      )}
+      {renderField(
+        'Celular',
+        'phone',
+        <TextInput
+          style={[styles.input, errors.phone && styles.inputError]}
+          placeholder="(11) 98765-4321"
+          placeholderTextColor="#999"
+          keyboardType="phone-pad"
+          value={phone}
+          onChangeText={(value) => setPhone(formatPhone(value))}
+        />
+      )}
+      {renderField(
+        'CPF',
+        'cpf',
+        <TextInput
+          style={[styles.input, errors.cpf && styles.inputError]}
+          placeholder="000.000.000-00"
+          placeholderTextColor="#999"
+          keyboardType="number-pad"
+          value={cpf}
+          onChangeText={(value) => setCpf(formatCpf(value))}
+        />
+      )}
+    </>
+  );
+
+  const renderVehicle = () => (
+    <>
+      {renderField(
+        'Tipo de veículo',
+        'vehicleType',
+        <View style={styles.vehicleOptions}>
+          {VEHICLE_OPTIONS.map((option) => {
+            const selected = vehicleType === option.type;
+            const iconColor = selected ? '#fff' : '#F97316';
+            return (
+              <TouchableOpacity
+                key={option.type}
+                style={[styles.vehicleOption, selected && styles.vehicleOptionSelected]}
+                onPress={() => setVehicleType(option.type)}
+              >
+                {option.type === 'CAR' ? (
+                  <Car size={28} color={iconColor} />
+                ) : (
+                  <Bike size={28} color={iconColor} />
+                )}
+                <Text style={[styles.vehicleLabel, selected && styles.vehicleLabelSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+      {requiresPlate &&
+        renderField(
+          'Placa',
+          'vehiclePlate',
+          <TextInput
+            style={[styles.input, errors.vehiclePlate && styles.inputError]}
+            placeholder="ABC1D23"
+            placeholderTextColor="#999"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={8}
+            value={vehiclePlate}
+            onChangeText={setVehiclePlate}
+          />
+        )}
+    </>
+  );
+
+  const renderReviewRow = (label: string, value: string) => (
+    <View style={styles.reviewRow}>
+      <Text style={styles.reviewLabel}>{label}</Text>
+      <Text style={styles.reviewValue}>{value}</Text>
+    </View>
+  );
+
+  const renderReview = () => (
+    <View style={styles.reviewCard}>
+      {renderReviewRow('Nome', fullName.trim())}
+      {renderReviewRow('Celular', phone)}
+      {renderReviewRow('CPF', cpf)}
+      {renderReviewRow(
+        'Veículo',
+        VEHICLE_OPTIONS.find((option) => option.type === vehicleType)?.label || '-'
+      )}
+      {requiresPlate && renderReviewRow('Placa', vehiclePlate.toUpperCase())}
+      <Text style={styles.reviewHint}>
+        Após o envio, seu cadastro será analisado pela nossa equipe.
+      </Text>
+    </View>
+  );
+
+  const isLastStep = step === STEPS.length - 1;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.title}>
+          {isResubmission ? 'Corrija seu cadastro' : 'Complete seu cadastro'}
+        </Text>
+        <Text style={styles.subtitle}>
+          Precisamos de alguns dados para você começar a entregar
+        </Text>
+
+        <View style={styles.steps}>
+          {STEPS.map((label, index) => (
+            <View key={label} style={styles.stepItem}>
+              <View style={[styles.stepCircle, index <= step && styles.stepCircleActive]}>
+                {index < step ? (
+                  <Check size={14} color="#fff" />
+                ) : (
+                  <Text style={[styles.stepNumber, index <= step && styles.stepNumberActive]}>
+                    {index + 1}
+                  </Text>
+                )}
+              </View>
+              <Text style={[styles.stepLabel, index === step && styles.stepLabelActive]}>
+                {label}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.form}>
+          {step === 0 && renderPersonalData()}
+          {step === 1 && renderVehicle()}
+          {step === 2 && renderReview()}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, isSubmitting && styles.buttonDisabled]}
+          onPress={isLastStep ? handleSubmit : handleNext}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>{isLastStep ? 'Enviar cadastro' : 'Continuar'}</Text>
+          )}
+        </TouchableOpacity>
+
+        {step > 0 ? (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleBack} disabled={isSubmitting}>
+            <Text style={styles.secondaryButtonText}>Voltar</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={isResubmission ? () => navigation.goBack() : logout}
+          >
+            <Text style={styles.secondaryButtonText}>{isResubmission ? 'Cancelar' : 'Sair'}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 24,
+  },
+  steps: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  stepItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  stepCircle: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#eee',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  stepCircleActive: {
+    backgroundColor: '#F97316',
+  },
+  stepNumber: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#999',
+  },
+  stepNumberActive: {
+    color: '#fff',
+  },
+  stepLabel: {
+    fontSize: 12,
+    color: '#999',
+  },
+  stepLabelActive: {
+    color: '#F97316',
+    fontWeight: '600',
+  },
+  form: {
+    marginBottom: 16,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    color: '#333',
+    backgroundColor: '#fff',
+  },
+  inputError: {
+    borderColor: '#EF4444',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 4,
+  },
+  vehicleOptions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  vehicleOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    gap: 8,
+  },
+  vehicleOptionSelected: {
+    backgroundColor: '#F97316',
+    borderColor: '#F97316',
+  },
+  vehicleLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  vehicleLabelSelected: {
+    color: '#fff',
+  },
+  reviewCard: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 16,
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  reviewLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  reviewValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  reviewHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 12,
+  },
+  button: {
+    height: 50,
+    backgroundColor: '#F97316',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    height: 50,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
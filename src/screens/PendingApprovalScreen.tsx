@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { Clock, LogOut, Check } from 'lucide-react-native';
+import { useAuth } from '../hooks/useAuth';
+
+// Check the approval status periodically while the driver waits on this screen
+const POLL_INTERVAL_MS = 30000;
+
+const formatDate = (dateString?: string) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString('pt-BR', {
+        day: '2-digit',
+        month: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : null;
+
+export function PendingApprovalScreen() {
+  const { driver, refreshDriver, logout } = useAuth();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const checkStatus = useCallback(async () => {
+    try {
+      await refreshDriver();
+    } catch (error) {
+      console.error('Error checking driver status:', error);
+    }
+  }, [refreshDriver]);
+
+  useEffect(() => {
+    const interval = setInterval(checkStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [checkStatus]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await checkStatus();
+    setIsRefreshing(false);
+  };
+
+  const progressSteps = [
+    { label: 'Cadastro enviado', detail: formatDate(driver?.createdAt), done: true },
+    { label: 'Análise dos dados', detail: 'Em andamento', done: false, current: true },
+    { label: 'Aprovação', detail: 'Você será avisado ao ser aprovado', done: false },
+  ];
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          colors={['#F97316']}
+          tintColor="#F97316"
+        />
+      }
+    >
+      <View style={styles.iconContainer}>
+        <Clock size={48} color="#F97316" />
+      </View>
+      <Text style={styles.title}>Cadastro em análise</Text>
+      <Text style={styles.text}>
+        Olá, {driver?.fullName?.split(' ')[0] || 'Entregador'}! Recebemos seus dados e nossa equipe
+        está analisando seu cadastro. Você poderá ficar online assim que for aprovado.
+      </Text>
+
+      <View style={styles.progressCard}>
+        {progressSteps.map((item, index) => (
+          <View key={item.label} style={styles.progressRow}>
+            <View style={styles.progressIndicator}>
+              <View
+                style={[
+                  styles.progressDot,
+                  item.done && styles.progressDotDone,
+                  item.current && styles.progressDotCurrent,
+                ]}
+              >
+                {item.done && <Check size={12} color="#fff" />}
+              </View>
+              {index < progressSteps.length - 1 && <View style={styles.progressLine} />}
+            </View>
+            <View style={styles.progressContent}>
+              <Text style={[styles.progressLabel, item.current && styles.progressLabelCurrent]}>
+                {item.label}
+              </Text>
+              {item.detail && <Text style={styles.progressDetail}>{item.detail}</Text>}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.hint}>Puxe para baixo para verificar novamente.</Text>
+
+      <TouchableOpacity style={styles.logoutButton} onPress={logout}>
+        <LogOut size={20} color="#EF4444" />
+        <Text style={styles.logoutButtonText}>Sair da Conta</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  iconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#FFF3E0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  progressCard: {
+    alignSelf: 'stretch',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 16,
+  },
+  progressRow: {
+    flexDirection: 'row',
+  },
+  progressIndicator: {
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  progressDot: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#ddd',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  progressDotDone: {
+    backgroundColor: '#22C55E',
+  },
+  progressDotCurrent: {
+    backgroundColor: '#F97316',
+  },
+  progressLine: {
+    width: 2,
+    flex: 1,
+    minHeight: 20,
+    backgroundColor: '#ddd',
+  },
+  progressContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  progressLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  progressLabelCurrent: {
+    color: '#F97316',
+  },
+  progressDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 32,
+  },
+  logoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  logoutButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
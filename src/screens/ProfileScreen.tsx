@@ -19,12 +19,16 @@ import {
   ScrollText,
   LogOut,
   ChevronRight,
+  Lock,
+  Smartphone,
 } from 'lucide-react-native';
 import { useAuth } from '../hooks/useAuth';
+import { useAppLock } from '../hooks/useAppLock';
 import packageJson from '../../package.json';
 
-export function ProfileScreen() {
+export function ProfileScreen({ navigation }: any) {
   const { user, driver, logout } = useAuth();
+  const { isEnabled: isAppLockEnabled } = useAppLock();
 
   const handleLogout = () => {
     Alert.alert(
@@ -108,7 +112,7 @@ export function ProfileScreen() {
           <View style={styles.statItem}>
             <View style={styles.statValueRow}>
               <Star size={20} color="#F7A922" fill="#F7A922" />
-              <Text style={styles.statValue}>{Number(driver?.rating ?? 0).toFixed(1)}</Text>
+              <Text style={styles.statValue}>{(driver?.rating ?? 0).toFixed(1)}</Text>
             </View>
             <Text style={styles.statLabel}>Avaliação</Text>
           </View>
@@ -174,6 +178,25 @@ export function ProfileScreen() {
               <ChevronRight size={20} color="#ccc" />
             </TouchableOpacity>
             <View style={styles.menuDivider} />
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => navigation.navigate('AppLockSettings')}
+            >
+              <Lock size={20} color="#666" />
+              <Text style={styles.menuText}>Bloqueio do app</Text>
+              <Text style={styles.menuValue}>{isAppLockEnabled ? 'Ativado' : 'Desativado'}</Text>
+              <ChevronRight size={20} color="#ccc" />
+            </TouchableOpacity>
+            <View style={styles.menuDivider} />
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => navigation.navigate('Sessions')}
+            >
+              <Smartphone size={20} color="#666" />
+              <Text style={styles.menuText}>Sessões ativas</Text>
+              <ChevronRight size={20} color="#ccc" />
+            </TouchableOpacity>
+            <View style={styles.menuDivider} />
             <TouchableOpacity style={styles.menuItem}>
               <FileText size={20} color="#666" />
               <Text style={styles.menuText}>Documentos</Text>
@@ -366,6 +389,10 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: '#1a1a1a',
   },
+  menuValue: {
+    fontSize: 13,
+    color: '#999',
+  },
   logoutButton: {
     flexDirection: 'row',
     backgroundColor: '#fff',
@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { ArrowLeft, Smartphone } from 'lucide-react-native';
+import { useAuth } from '../hooks/useAuth';
+import { authApi } from '../services/driverApi';
+import { DeviceSession } from '../types';
+import { presentError } from '../utils/presentError';
+
+export function SessionsScreen({ navigation }: any) {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const data = await authApi.getSessions();
+      // Current device first, then most recently active
+      const sorted = [...data].sort((a, b) =>
+        a.current === b.current
+          ? new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime()
+          : a.current ? -1 : 1
+      );
+      setSessions(sorted);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      presentError(error, {
+        title: 'Não foi possível carregar as sessões',
+        onRetry: fetchSessions,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await fetchSessions();
+    setIsRefreshing(false);
+  };
+
+  const revokeSession = async (session: DeviceSession) => {
+    setRevokingId(session.id);
+    try {
+      await authApi.revokeSession(session.id);
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (error) {
+      presentError(error, {
+        title: 'Erro ao encerrar sessão',
+        onRetry: () => revokeSession(session),
+        onRefresh: fetchSessions,
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevoke = (session: DeviceSession) => {
+    if (session.current) {
+      Alert.alert('Encerrar sessão', 'Deseja sair deste dispositivo?', [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Sair', style: 'destructive', onPress: logout },
+      ]);
+      return;
+    }
+
+    Alert.alert(
+      'Encerrar sessão',
+      `O dispositivo "${session.deviceName}" será desconectado.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Encerrar', style: 'destructive', onPress: () => revokeSession(session) },
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      'Encerrar outras sessões',
+      'Todos os outros dispositivos serão desconectados.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Encerrar todas',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId('others');
+            try {
+              await authApi.revokeOtherSessions();
+              setSessions((prev) => prev.filter((s) => s.current));
+            } catch (error) {
+              presentError(error, { title: 'Erro ao encerrar sessões' });
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderSession = ({ item }: { item: DeviceSession }) => (
+    <View style={styles.sessionCard}>
+      <View style={styles.sessionIcon}>
+        <Smartphone size={24} color={item.current ? '#F97316' : '#666'} />
+      </View>
+      <View style={styles.sessionInfo}>
+        <View style={styles.sessionTitleRow}>
+          <Text style={styles.deviceName}>{item.deviceName}</Text>
+          {item.current && (
+            <View style={styles.currentBadge}>
+              <Text style={styles.currentBadgeText}>Este dispositivo</Text>
+            </View>
+          )}
+        </View>
+        {item.platform && <Text style={styles.sessionMeta}>{item.platform}</Text>}
+        <Text style={styles.sessionMeta}>Último acesso: {formatDate(item.lastActiveAt)}</Text>
+        <Text style={styles.sessionMeta}>Conectado em: {formatDate(item.createdAt)}</Text>
+      </View>
+      <TouchableOpacity
+        style={styles.revokeButton}
+        onPress={() => handleRevoke(item)}
+        disabled={revokingId !== null}
+      >
+        {revokingId === item.id ? (
+          <ActivityIndicator size="small" color="#EF4444" />
+        ) : (
+          <Text style={styles.revokeButtonText}>{item.current ? 'Sair' : 'Encerrar'}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const hasOtherSessions = sessions.some((s) => !s.current);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Sessões ativas</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#F97316" />
+        </View>
+      ) : (
+        <FlatList
+          data={sessions}
+          renderItem={renderSession}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>Nenhuma sessão encontrada</Text>
+          }
+          ListFooterComponent={
+            hasOtherSessions ? (
+              <TouchableOpacity
+                style={styles.revokeOthersButton}
+                onPress={handleRevokeOthers}
+                disabled={revokingId !== null}
+              >
+                {revokingId === 'others' ? (
+                  <ActivityIndicator color="#EF4444" />
+                ) : (
+                  <Text style={styles.revokeOthersText}>Encerrar todas as outras sessões</Text>
+                )}
+              </TouchableOpacity>
+            ) : null
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              colors={['#F97316']}
+              tintColor="#F97316"
+            />
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 50,
+    paddingBottom: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  sessionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  sessionIcon: {
+    marginRight: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 4,
+  },
+  deviceName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  currentBadge: {
+    backgroundColor: '#FFF3E0',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  currentBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#F97316',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  revokeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  revokeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#666',
+    marginTop: 32,
+  },
+  revokeOthersButton: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#EF4444',
+    marginTop: 4,
+  },
+  revokeOthersText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
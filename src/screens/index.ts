@@ -5,3 +5,12 @@ export { DeliveryDetailsScreen } from './DeliveryDetailsScreen';
 export { HistoryScreen } from './HistoryScreen';
 export { EarningsScreen } from './EarningsScreen';
 export { ProfileScreen } from './ProfileScreen';
+export { OnboardingScreen } from './OnboardingScreen';
+export { PendingApprovalScreen } from './PendingApprovalScreen';
+export { ForgotPasswordScreen } from './ForgotPasswordScreen';
+export { DriverRejectedScreen } from './DriverRejectedScreen';
+export { DriverSuspendedScreen } from './DriverSuspendedScreen';
+export { AppLockScreen } from './AppLockScreen';
+export { AppLockSettingsScreen } from './AppLockSettingsScreen';
+export { SessionsScreen } from './SessionsScreen';
+export { ConnectionDiagnosticsScreen } from './ConnectionDiagnosticsScreen';
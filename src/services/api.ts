@@ -1,39 +1,239 @@
-import axios from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { toApiError } from './apiErrors';
+import { emitSessionExpired, emitTokensRefreshed, SessionExpiredReason } from './authEvents';
+import { credentialStore } from './credentialStore';
+import { recordRestResult } from './diagnostics';
+import { getEnvironment, loadEnvironment, onEnvironmentChange } from './environment';
+import { waitForConnection } from './network';
 
-// API URL - já inclui /api se necessário
-const API_URL = process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:3001/api';
-// Base URL para WebSocket (sem /api)
-const BASE_URL = API_URL.replace(/\/api$/, '');
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
 
-// Debug log
-console.log('API Configuration:', { BASE_URL, API_URL });
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Per-request retry settings; false disables retrying
+    retry?: Partial<RetryOptions> | false;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_RETRY: RetryOptions = { retries: 3, baseDelayMs: 500, maxDelayMs: 8 * 1000 };
+// How long a request waits for connectivity before failing as a network error
+const OFFLINE_WAIT_MS = 30 * 1000;
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
 
-export { BASE_URL, API_URL }; // Export for WebSocket and other hooks
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  _retryCount?: number;
+  // When the current attempt went out, for the latency shown in diagnostics
+  _startedAt?: number;
+}
+
+interface RefreshResponse {
+  accessToken: string;
+  refreshToken: string;
+}
 
 const api = axios.create({
-  baseURL: API_URL,
+  baseURL: getEnvironment().apiUrl,
+  timeout: DEFAULT_TIMEOUT_MS,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-api.interceptors.request.use(async (config) => {
-  const token = await AsyncStorage.getItem('token');
+// Follow runtime environment switches without recreating the instance
+onEnvironmentChange((environment) => {
+  api.defaults.baseURL = environment.apiUrl;
+});
+
+// Public auth endpoints (login, refresh, password reset, phone code) must never
+// trigger a refresh themselves. Authenticated ones like /auth/sessions still do.
+const PUBLIC_AUTH_PATHS = /^\/auth\/(login|refresh|forgot-password|verify-reset-code|reset-password|phone\/)/;
+
+// Shared refresh promise so concurrent 401s wait for a single refresh call
+let refreshPromise: Promise<string> | null = null;
+
+const expireSession = async (reason: SessionExpiredReason = 'token_expired') => {
+  await credentialStore.clear();
+  emitSessionExpired(reason);
+};
+
+const getRefreshErrorCode = (refreshError: unknown) =>
+  axios.isAxiosError(refreshError)
+    ? (refreshError.response?.data as { code?: string } | undefined)?.code
+    : undefined;
+
+// The server answers the refresh with SESSION_REVOKED when the session was ended remotely
+const getExpiryReason = (refreshError: unknown): SessionExpiredReason =>
+  getRefreshErrorCode(refreshError) === 'SESSION_REVOKED' ? 'session_revoked' : 'token_expired';
+
+// Only a refresh the server turned down ends the session. Dropped connections,
+// timeouts and 5xx keep the tokens so the next request can refresh again.
+const isRefreshRejected = (refreshError: unknown) => {
+  // No refresh token stored, so there is nothing to retry with
+  if (!axios.isAxiosError(refreshError)) return true;
+  const status = refreshError.response?.status;
+  return (
+    status === 400 ||
+    status === 401 ||
+    getRefreshErrorCode(refreshError) === 'SESSION_REVOKED'
+  );
+};
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = await credentialStore.getRefreshToken();
+  if (!refreshToken) {
+    throw new Error('No refresh token available');
+  }
+
+  // Use a bare axios call so this request does not go through the interceptors
+  const response = await axios.post<RefreshResponse>(
+    `${getEnvironment().apiUrl}/auth/refresh`,
+    { refreshToken },
+    { timeout: DEFAULT_TIMEOUT_MS }
+  );
+  const { accessToken, refreshToken: newRefreshToken } = response.data;
+
+  await credentialStore.setTokens(accessToken, newRefreshToken);
+  emitTokensRefreshed();
+
+  return accessToken;
+};
+
+const getRefreshedToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = refreshAccessToken().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// For callers outside axios (the socket handshake): rotates the tokens, or ends
+// the session when the server rejects the refresh. Resolves to null when no new
+// token could be had; after a transient failure the session is left as it was.
+export async function refreshSession() {
+  try {
+    return await getRefreshedToken();
+  } catch (refreshError) {
+    if (isRefreshRejected(refreshError)) {
+      console.log('Token refresh rejected, clearing auth');
+      await expireSession(getExpiryReason(refreshError));
+    } else {
+      console.log('Token refresh failed, keeping session:', refreshError);
+    }
+    return null;
+  }
+}
+
+export const isRequestCancelled = (error: unknown) => axios.isCancel(error);
+
+// Requests with an Idempotency-Key are safe to replay whatever their method
+const isIdempotent = (config: InternalAxiosRequestConfig) =>
+  IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase()) ||
+  !!config.headers?.['Idempotency-Key'];
+
+// Timeouts, dropped connections and transient gateway errors
+const isTransientError = (error: AxiosError) =>
+  !error.response || RETRYABLE_STATUSES.includes(error.response.status);
+
+// Full jitter: a random delay up to the exponential cap spreads out retries from many devices
+const getBackoffDelay = (attempt: number, options: RetryOptions) =>
+  Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getLatency = (config?: RetriableRequestConfig) =>
+  config?._startedAt ? Date.now() - config._startedAt : null;
+
+api.interceptors.request.use(async (config: RetriableRequestConfig) => {
+  // Hold requests while offline instead of failing them right away; a cancelled
+  // request is rejected by axios as soon as it's dispatched
+  if (!config.signal?.aborted && !(await waitForConnection(OFFLINE_WAIT_MS))) {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+  }
+
+  // The persisted environment must be applied before the first request goes out
+  await loadEnvironment();
+  config.baseURL = getEnvironment().apiUrl;
+
+  const token = await credentialStore.getAccessToken();
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
+  config._startedAt = Date.now();
   return config;
 });
 
 api.interceptors.response.use(
-  (response) => response,
-  async (error) => {
-    if (error.response?.status === 401) {
-      await AsyncStorage.removeItem('token');
-      await AsyncStorage.removeItem('user');
+  (response) => {
+    recordRestResult(true, getLatency(response.config));
+    return response;
+  },
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+    // Any HTTP answer means the server is reachable, even an error status
+    if (!axios.isCancel(error)) {
+      recordRestResult(!!error.response, getLatency(originalRequest));
+    }
+
+    if (
+      originalRequest &&
+      originalRequest.retry !== false &&
+      !axios.isCancel(error) &&
+      isIdempotent(originalRequest) &&
+      isTransientError(error)
+    ) {
+      const options = { ...DEFAULT_RETRY, ...originalRequest.retry };
+      const attempt = originalRequest._retryCount ?? 0;
+
+      if (attempt < options.retries) {
+        originalRequest._retryCount = attempt + 1;
+        await sleep(getBackoffDelay(attempt, options));
+        return api(originalRequest);
+      }
+    }
+
+    const isAuthRequest = PUBLIC_AUTH_PATHS.test(originalRequest?.url ?? '');
+    // Callers only ever see typed errors; cancellations stay as they are so
+    // isRequestCancelled keeps working
+    const fail = () =>
+      Promise.reject(axios.isCancel(error) ? error : toApiError(error, isAuthRequest));
+
+    if (error.response?.status !== 401 || !originalRequest || isAuthRequest) {
+      return fail();
+    }
+
+    // Already replayed once with a fresh token - the session is really gone
+    if (originalRequest._retry) {
+      await expireSession();
+      return fail();
+    }
+
+    originalRequest._retry = true;
+
+    try {
+      const accessToken = await getRefreshedToken();
+
+      // Replay the original request with the rotated token
+      originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+      return api(originalRequest);
+    } catch (refreshError) {
+      if (!isRefreshRejected(refreshError)) {
+        // The refresh never got an answer; report that instead of the 401
+        return Promise.reject(toApiError(refreshError));
+      }
+      console.log('Token refresh rejected, clearing auth');
+      await expireSession(getExpiryReason(refreshError));
+      return fail();
     }
-    return Promise.reject(error);
   }
 );
 
@@ -0,0 +1,168 @@
+import axios, { AxiosError } from 'axios';
+
+// Error taxonomy for everything the API layer rejects with. The axios instance
+// turns every failed response into an ApiError, so screens never have to dig
+// into error.response themselves.
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'validation'
+  | 'server'
+  | 'unknown';
+
+// What the user can do about it; the error presenter turns it into an alert button
+export type RecoveryAction = 'retry' | 'refresh' | 'login' | 'fix_input' | 'contact_support' | 'none';
+
+interface ErrorDescription {
+  title: string;
+  message: string;
+  recovery: RecoveryAction;
+  // Whether the server's own message is more useful than ours
+  preferServerMessage: boolean;
+}
+
+export const ERROR_DESCRIPTIONS: Record<ApiErrorKind, ErrorDescription> = {
+  network: {
+    title: 'Sem conexão',
+    message: 'Verifique sua conexão com a internet e tente novamente.',
+    recovery: 'retry',
+    preferServerMessage: false,
+  },
+  timeout: {
+    title: 'Tempo esgotado',
+    message: 'O servidor demorou para responder. Tente novamente em instantes.',
+    recovery: 'retry',
+    preferServerMessage: false,
+  },
+  auth: {
+    title: 'Sessão expirada',
+    message: 'Entre novamente para continuar.',
+    recovery: 'login',
+    preferServerMessage: false,
+  },
+  forbidden: {
+    title: 'Acesso negado',
+    message: 'Você não tem permissão para realizar esta ação.',
+    recovery: 'contact_support',
+    preferServerMessage: true,
+  },
+  not_found: {
+    title: 'Não encontrado',
+    message: 'O que você procura não está mais disponível.',
+    recovery: 'refresh',
+    preferServerMessage: true,
+  },
+  conflict: {
+    title: 'Ação não concluída',
+    message: 'Os dados mudaram enquanto você usava o app. Atualize e tente novamente.',
+    recovery: 'refresh',
+    preferServerMessage: true,
+  },
+  validation: {
+    title: 'Dados inválidos',
+    message: 'Revise as informações e tente novamente.',
+    recovery: 'fix_input',
+    preferServerMessage: true,
+  },
+  server: {
+    title: 'Erro no servidor',
+    message: 'Tivemos um problema do nosso lado. Tente novamente em alguns minutos.',
+    recovery: 'retry',
+    preferServerMessage: false,
+  },
+  unknown: {
+    title: 'Erro',
+    message: 'Algo deu errado. Tente novamente.',
+    recovery: 'retry',
+    preferServerMessage: true,
+  },
+};
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  // Machine-readable code sent by the server (e.g. SESSION_REVOKED)
+  readonly code?: string;
+  readonly serverMessage?: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    options: { status?: number; code?: string; serverMessage?: string; cause?: unknown } = {}
+  ) {
+    super(options.serverMessage || ERROR_DESCRIPTIONS[kind].message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.code = options.code;
+    this.serverMessage = options.serverMessage;
+    this.cause = options.cause;
+  }
+
+  get recovery() {
+    return ERROR_DESCRIPTIONS[this.kind].recovery;
+  }
+
+  // Errors worth sending again unchanged
+  get isTransient() {
+    return (
+      this.kind === 'network' ||
+      this.kind === 'timeout' ||
+      this.kind === 'server' ||
+      this.kind === 'auth'
+    );
+  }
+}
+
+const kindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 408) return 'timeout';
+  if (status === 409) return 'conflict';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 429 || status >= 500) return 'server';
+  return 'unknown';
+};
+
+// NestJS validation pipes answer with an array of messages
+const readServerMessage = (data: unknown) => {
+  const message = (data as { message?: unknown } | undefined)?.message;
+  if (Array.isArray(message)) return message.join('\n');
+  return typeof message === 'string' ? message : undefined;
+};
+
+// `credentialsRequest` marks login/code endpoints, where a 401 means wrong input
+// rather than an expired session
+export function toApiError(error: unknown, credentialsRequest = false): ApiError {
+  if (error instanceof ApiError) return error;
+  if (!axios.isAxiosError(error)) {
+    return new ApiError('unknown', {
+      serverMessage: error instanceof Error ? error.message : undefined,
+      cause: error,
+    });
+  }
+
+  const axiosError = error as AxiosError;
+  if (!axiosError.response) {
+    const isTimeout =
+      axiosError.code === AxiosError.ECONNABORTED || axiosError.code === AxiosError.ETIMEDOUT;
+    return new ApiError(isTimeout ? 'timeout' : 'network', { cause: error });
+  }
+
+  const { status, data } = axiosError.response;
+  const kind = status === 401 && credentialsRequest ? 'validation' : kindFromStatus(status);
+  return new ApiError(kind, {
+    status,
+    code: (data as { code?: string } | undefined)?.code,
+    serverMessage: readServerMessage(data),
+    cause: error,
+  });
+}
+
+export const isApiError = (error: unknown, kind?: ApiErrorKind): error is ApiError =>
+  error instanceof ApiError && (!kind || error.kind === kind);
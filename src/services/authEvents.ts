@@ -0,0 +1,54 @@
+// Event channel used by the API client and sockets to tell AuthProvider
+// that the current session can no longer be used.
+
+export type SessionExpiredReason = 'token_expired' | 'socket_unauthorized' | 'session_revoked';
+
+type SessionExpiredListener = (reason: SessionExpiredReason) => void;
+
+const listeners = new Set<SessionExpiredListener>();
+
+export function onSessionExpired(listener: SessionExpiredListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitSessionExpired(reason: SessionExpiredReason) {
+  listeners.forEach((listener) => {
+    try {
+      listener(reason);
+    } catch (error) {
+      console.error('Session expired listener error:', error);
+    }
+  });
+}
+
+type TokensRefreshedListener = () => void;
+
+const refreshListeners = new Set<TokensRefreshedListener>();
+
+// Fired after the access token was rotated, so long-lived connections can
+// re-authenticate with the new one
+export function onTokensRefreshed(listener: TokensRefreshedListener) {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+}
+
+export function emitTokensRefreshed() {
+  refreshListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Tokens refreshed listener error:', error);
+    }
+  });
+}
+
+// Socket.io reports handshake rejections as connect_error with the server message
+export function isSocketAuthError(error: { message?: string; data?: any }) {
+  const message = `${error.message ?? ''} ${error.data?.message ?? ''}`;
+  return /unauthorized|jwt|invalid token|token expired/i.test(message);
+}
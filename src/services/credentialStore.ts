@@ -0,0 +1,173 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { AppLockConfig, Driver, User } from '../types';
+
+// Single place where tokens, the logged-in user and their driver profile
+// (which carries CPF and phone) are persisted.
+// The default backend uses the platform keychain/keystore (encrypted at rest);
+// tests can swap it for the in-memory backend.
+
+export interface CredentialBackend {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export const secureStoreBackend: CredentialBackend = {
+  getItem: (key) => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+  removeItem: (key) => SecureStore.deleteItemAsync(key),
+};
+
+export function createMemoryBackend(initial: Record<string, string> = {}): CredentialBackend {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+// SecureStore keys only accept alphanumerics, ".", "-" and "_"
+const KEYS = {
+  accessToken: 'zefood.accessToken',
+  refreshToken: 'zefood.refreshToken',
+  user: 'zefood.user',
+  appLock: 'zefood.appLock',
+  driverProfile: 'zefood.driverProfile',
+};
+
+// Plain AsyncStorage keys used before the credential store existed
+const LEGACY_KEYS = {
+  accessToken: ['token', '@FoodApp:token'],
+  refreshToken: ['refreshToken'],
+  user: ['user'],
+};
+
+// Earlier versions kept the driver profile in the plain AsyncStorage query cache
+const LEGACY_PROFILE_CACHE_KEY = '@FoodApp:cache:drivers/me';
+
+let backend: CredentialBackend = secureStoreBackend;
+let migration: Promise<void> | null = null;
+
+export function setCredentialBackend(newBackend: CredentialBackend) {
+  backend = newBackend;
+  migration = null;
+}
+
+// Move credentials saved by older versions into the backend, then delete them
+async function migrateLegacyStorage() {
+  try {
+    for (const [name, legacyKeys] of Object.entries(LEGACY_KEYS)) {
+      const key = KEYS[name as keyof typeof KEYS];
+      const legacyValues = await AsyncStorage.multiGet(legacyKeys);
+      const legacyValue = legacyValues.find(([, value]) => !!value)?.[1];
+
+      if (legacyValue && !(await backend.getItem(key))) {
+        await backend.setItem(key, legacyValue);
+      }
+      await AsyncStorage.multiRemove(legacyKeys);
+    }
+    await AsyncStorage.removeItem(LEGACY_PROFILE_CACHE_KEY);
+  } catch (error) {
+    console.error('Error migrating legacy credentials:', error);
+  }
+}
+
+const ready = () => {
+  if (!migration) {
+    migration = migrateLegacyStorage();
+  }
+  return migration;
+};
+
+export const credentialStore = {
+  async getAccessToken() {
+    await ready();
+    return backend.getItem(KEYS.accessToken);
+  },
+
+  async getRefreshToken() {
+    await ready();
+    return backend.getItem(KEYS.refreshToken);
+  },
+
+  async getUser(): Promise<User | null> {
+    await ready();
+    const storedUser = await backend.getItem(KEYS.user);
+    if (!storedUser) return null;
+
+    try {
+      return JSON.parse(storedUser);
+    } catch {
+      return null;
+    }
+  },
+
+  async setTokens(accessToken: string, refreshToken: string) {
+    await ready();
+    await Promise.all([
+      backend.setItem(KEYS.accessToken, accessToken),
+      backend.setItem(KEYS.refreshToken, refreshToken),
+    ]);
+  },
+
+  async setUser(user: User) {
+    await ready();
+    await backend.setItem(KEYS.user, JSON.stringify(user));
+  },
+
+  async getDriverProfile(): Promise<Driver | null> {
+    await ready();
+    const storedProfile = await backend.getItem(KEYS.driverProfile);
+    if (!storedProfile) return null;
+
+    try {
+      return JSON.parse(storedProfile);
+    } catch {
+      return null;
+    }
+  },
+
+  // null (no profile yet) is not kept, so the next start waits for the server
+  async setDriverProfile(profile: Driver | null) {
+    await ready();
+    if (profile) {
+      await backend.setItem(KEYS.driverProfile, JSON.stringify(profile));
+    } else {
+      await backend.removeItem(KEYS.driverProfile);
+    }
+  },
+
+  async getAppLock(): Promise<AppLockConfig | null> {
+    await ready();
+    const storedConfig = await backend.getItem(KEYS.appLock);
+    if (!storedConfig) return null;
+
+    try {
+      return JSON.parse(storedConfig);
+    } catch {
+      return null;
+    }
+  },
+
+  async setAppLock(config: AppLockConfig) {
+    await ready();
+    await backend.setItem(KEYS.appLock, JSON.stringify(config));
+  },
+
+  async clearAppLock() {
+    await ready();
+    await backend.removeItem(KEYS.appLock);
+  },
+
+  // Also removes the app-lock PIN, which belongs to the logged-in account
+  async clear() {
+    await ready();
+    await Promise.all(Object.values(KEYS).map((key) => backend.removeItem(key)));
+  },
+};
@@ -0,0 +1,107 @@
+import type { SocketConnectionState } from './ordersSocket';
+
+// Live view of the app's connections, fed by the HTTP client, the orders socket
+// and location tracking. Backs the header indicator and the diagnostics screen.
+
+export type GpsState = 'off' | 'tracking' | 'denied' | 'unavailable' | 'error';
+
+export interface SocketEventLogEntry {
+  event: string;
+  direction: 'in' | 'out';
+  at: number;
+}
+
+export interface ConnectionDiagnostics {
+  rest: {
+    // null until the first request finished
+    reachable: boolean | null;
+    latencyMs: number | null;
+    lastCheckedAt: number | null;
+  };
+  socket: {
+    state: SocketConnectionState;
+    reconnectCount: number;
+    connectedAt: number | null;
+  };
+  gps: {
+    state: GpsState;
+    lastLocationSentAt: number | null;
+  };
+  // Most recent first
+  recentEvents: SocketEventLogEntry[];
+}
+
+const MAX_RECENT_EVENTS = 30;
+
+type DiagnosticsListener = (diagnostics: ConnectionDiagnostics) => void;
+
+const listeners = new Set<DiagnosticsListener>();
+
+let diagnostics: ConnectionDiagnostics = {
+  rest: { reachable: null, latencyMs: null, lastCheckedAt: null },
+  socket: { state: 'disconnected', reconnectCount: 0, connectedAt: null },
+  gps: { state: 'off', lastLocationSentAt: null },
+  recentEvents: [],
+};
+
+// Snapshots are replaced, never mutated, so React state updates see a change
+const update = (changes: Partial<ConnectionDiagnostics>) => {
+  diagnostics = { ...diagnostics, ...changes };
+  listeners.forEach((listener) => listener(diagnostics));
+};
+
+export function getDiagnostics() {
+  return diagnostics;
+}
+
+export function onDiagnosticsChange(listener: DiagnosticsListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Latency is kept from the last successful round trip while unreachable
+export function recordRestResult(reachable: boolean, latencyMs: number | null) {
+  update({
+    rest: {
+      reachable,
+      latencyMs: reachable ? latencyMs : diagnostics.rest.latencyMs,
+      lastCheckedAt: Date.now(),
+    },
+  });
+}
+
+export function recordSocketState(state: SocketConnectionState) {
+  update({
+    socket: {
+      ...diagnostics.socket,
+      state,
+      connectedAt: state === 'connected' ? Date.now() : diagnostics.socket.connectedAt,
+    },
+  });
+}
+
+export function recordSocketReconnect() {
+  update({
+    socket: { ...diagnostics.socket, reconnectCount: diagnostics.socket.reconnectCount + 1 },
+  });
+}
+
+export function recordSocketEvent(event: string, direction: SocketEventLogEntry['direction']) {
+  update({
+    recentEvents: [{ event, direction, at: Date.now() }, ...diagnostics.recentEvents].slice(
+      0,
+      MAX_RECENT_EVENTS
+    ),
+  });
+}
+
+export function recordGpsState(state: GpsState) {
+  if (state === diagnostics.gps.state) return;
+  update({ gps: { ...diagnostics.gps, state } });
+}
+
+export function recordLocationSent() {
+  update({ gps: { ...diagnostics.gps, lastLocationSentAt: Date.now() } });
+}
@@ -0,0 +1,189 @@
+import api from './api';
+import { isApiError } from './apiErrors';
+import {
+  parseDailyEarnings,
+  parseDeliveries,
+  parseDelivery,
+  parseDeliveryHistory,
+  parseDriver,
+  parseEarningItems,
+  parseEarningsSummary,
+} from './schemas';
+import {
+  AuthResponse,
+  DeclineReason,
+  Delivery,
+  DeliveryHistory,
+  DeviceSession,
+  DriverRegistrationData,
+  EarningItem,
+  PaginatedResponse,
+} from '../types';
+
+// Typed client for the driver backend: one function per endpoint.
+// Screens and hooks call these instead of building URLs on the axios instance.
+
+// Lets a screen cancel its reads when it unmounts (see useAbortSignal)
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+const isNotFound = (error: unknown) => isApiError(error, 'not_found');
+
+export const authApi = {
+  async login(email: string, password: string) {
+    const response = await api.post<AuthResponse>('/auth/login', { email, password });
+    return response.data;
+  },
+
+  async requestPhoneCode(phone: string) {
+    await api.post('/auth/phone/request-code', { phone });
+  },
+
+  async verifyPhoneCode(phone: string, code: string) {
+    const response = await api.post<AuthResponse>('/auth/phone/verify', { phone, code });
+    return response.data;
+  },
+
+  async forgotPassword(email: string) {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  async verifyResetCode(email: string, code: string) {
+    const response = await api.post<{ resetToken: string }>('/auth/verify-reset-code', {
+      email,
+      code,
+    });
+    return response.data.resetToken;
+  },
+
+  async resetPassword(resetToken: string, password: string) {
+    await api.post('/auth/reset-password', { resetToken, password });
+  },
+
+  async getSessions(options: RequestOptions = {}) {
+    const response = await api.get<DeviceSession[]>('/auth/sessions', options);
+    return response.data || [];
+  },
+
+  async revokeSession(sessionId: string) {
+    await api.delete(`/auth/sessions/${sessionId}`);
+  },
+
+  async revokeOtherSessions() {
+    await api.delete('/auth/sessions/others');
+  },
+};
+
+export const driversApi = {
+  // Resolves to null when the user has no driver profile yet
+  async getMe(options: RequestOptions = {}) {
+    try {
+      const response = await api.get('/drivers/me', options);
+      return parseDriver(response.data);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+
+  async register(data: DriverRegistrationData) {
+    const response = await api.post('/drivers', data);
+    return parseDriver(response.data);
+  },
+
+  async resubmit(data: DriverRegistrationData) {
+    const response = await api.put('/drivers/me', data);
+    return parseDriver(response.data);
+  },
+
+  async submitAppeal(message: string) {
+    await api.post('/drivers/me/appeal', { message });
+  },
+
+  async updateStatus(isOnline: boolean) {
+    const response = await api.patch('/drivers/status', { isOnline });
+    return parseDriver(response.data);
+  },
+
+  async updateLocation(latitude: number, longitude: number) {
+    await api.patch('/drivers/location', { latitude, longitude });
+  },
+
+  // Single round trip for the connection test; retrying would hide the real latency
+  async ping() {
+    await api.get('/drivers/me', { retry: false });
+  },
+};
+
+export const deliveriesApi = {
+  async getAvailable(options: RequestOptions = {}) {
+    const response = await api.get('/drivers/deliveries/available', options);
+    return parseDeliveries(response.data ?? []);
+  },
+
+  // Resolves to null when the driver has no active delivery
+  async getCurrent(options: RequestOptions = {}) {
+    try {
+      const response = await api.get('/drivers/deliveries/current', options);
+      // An empty body also means no active delivery
+      return response.data ? parseDelivery(response.data) : null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+
+  async accept(deliveryId: string) {
+    await api.post(`/drivers/deliveries/${deliveryId}/accept`);
+  },
+
+  // Tells the server the driver passed on an offer so it isn't offered again
+  async decline(deliveryId: string, reason: DeclineReason, note?: string) {
+    await api.post(`/drivers/deliveries/${deliveryId}/decline`, { reason, note });
+  },
+
+  async getHistory(options: RequestOptions = {}) {
+    const response = await api.get('/drivers/deliveries/history', options);
+    const rows: unknown[] = Array.isArray(response.data?.data) ? response.data.data : [];
+    return rows
+      .map(parseDeliveryHistory)
+      .filter((row): row is DeliveryHistory => row !== null);
+  },
+};
+
+export const ordersApi = {
+  // The idempotency key lets the server ignore replays of a transition it already applied
+  async updateStatus(orderId: string, status: Delivery['status'], idempotencyKey?: string) {
+    const response = await api.patch(
+      `/orders/${orderId}/status`,
+      { status },
+      idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+    );
+    return parseDelivery(response.data);
+  },
+};
+
+export const financeApi = {
+  async getSummary(options: RequestOptions = {}) {
+    const response = await api.get('/driver-finance/summary', options);
+    return parseEarningsSummary(response.data);
+  },
+
+  async getToday(options: RequestOptions = {}) {
+    const response = await api.get('/driver-finance/today', options);
+    return parseDailyEarnings(response.data);
+  },
+
+  async getEarnings(page = 1, limit = 20, options: RequestOptions = {}) {
+    const response = await api.get<PaginatedResponse<unknown>>('/driver-finance/earnings', {
+      ...options,
+      params: { page, limit },
+    });
+    const result: PaginatedResponse<EarningItem> = {
+      data: parseEarningItems(response.data?.data ?? []),
+      pagination: response.data?.pagination ?? { total: 0, page, limit, totalPages: page },
+    };
+    return result;
+  },
+};
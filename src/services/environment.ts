@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { credentialStore } from './credentialStore';
+import { queryCache } from './queryCache';
+
+// Named backend environments. The build picks a default through EXPO_PUBLIC_APP_ENV;
+// non-production builds can switch at runtime and the choice is persisted.
+
+export type EnvironmentName = 'development' | 'staging' | 'production';
+
+export interface AppEnvironment {
+  name: EnvironmentName;
+  label: string;
+  // REST base URL, already including /api
+  apiUrl: string;
+  // Socket.io server origin (without /api) and the namespace the gateway listens on
+  socketUrl: string;
+  socketNamespace: string;
+}
+
+const STORAGE_KEY = '@FoodApp:environment';
+
+const defineEnvironment = (
+  name: EnvironmentName,
+  label: string,
+  apiUrl: string
+): AppEnvironment => ({
+  name,
+  label,
+  apiUrl,
+  socketUrl: apiUrl.replace(/\/api$/, ''),
+  socketNamespace: '/orders',
+});
+
+export const ENVIRONMENTS: Record<EnvironmentName, AppEnvironment> = {
+  development: defineEnvironment(
+    'development',
+    'Desenvolvimento',
+    process.env.EXPO_PUBLIC_DEV_API_URL ?? 'http://localhost:3001/api'
+  ),
+  staging: defineEnvironment(
+    'staging',
+    'Homologação',
+    process.env.EXPO_PUBLIC_STAGING_API_URL ?? 'https://staging.zefood.app/api'
+  ),
+  production: defineEnvironment(
+    'production',
+    'Produção',
+    process.env.EXPO_PUBLIC_API_URL ?? 'http://localhost:3001/api'
+  ),
+};
+
+const isEnvironmentName = (value: unknown): value is EnvironmentName =>
+  typeof value === 'string' && value in ENVIRONMENTS;
+
+const BUILD_ENVIRONMENT: EnvironmentName = isEnvironmentName(process.env.EXPO_PUBLIC_APP_ENV)
+  ? process.env.EXPO_PUBLIC_APP_ENV
+  : 'production';
+
+// Store builds must never talk to anything but production
+export const CAN_SWITCH_ENVIRONMENT = __DEV__ || BUILD_ENVIRONMENT !== 'production';
+
+type EnvironmentListener = (environment: AppEnvironment) => void;
+
+const listeners = new Set<EnvironmentListener>();
+
+let current = ENVIRONMENTS[BUILD_ENVIRONMENT];
+let loadPromise: Promise<AppEnvironment> | null = null;
+
+console.log('API Configuration:', current);
+
+export function getEnvironment() {
+  return current;
+}
+
+// Resolves once the persisted choice has been applied
+export function loadEnvironment() {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      if (!CAN_SWITCH_ENVIRONMENT) return current;
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (isEnvironmentName(stored) && stored !== current.name) {
+          current = ENVIRONMENTS[stored];
+          console.log('API Configuration:', current);
+          listeners.forEach((listener) => listener(current));
+        }
+      } catch (error) {
+        console.error('Error loading environment:', error);
+      }
+      return current;
+    })();
+  }
+  return loadPromise;
+}
+
+export async function setEnvironment(name: EnvironmentName) {
+  if (!CAN_SWITCH_ENVIRONMENT) {
+    throw new Error('Troca de ambiente indisponível nesta versão');
+  }
+  await loadEnvironment();
+  if (name === current.name) return;
+
+  // Tokens and cached data from one backend are meaningless to another
+  await credentialStore.clear();
+  await queryCache.clear();
+  await AsyncStorage.setItem(STORAGE_KEY, name);
+  current = ENVIRONMENTS[name];
+  console.log('API Configuration:', current);
+  listeners.forEach((listener) => listener(current));
+}
+
+export function onEnvironmentChange(listener: EnvironmentListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
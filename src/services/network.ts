@@ -0,0 +1,49 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+// Connectivity as seen by the HTTP client. Unknown reachability counts as online
+// so a slow NetInfo probe never blocks requests.
+
+type ConnectivityListener = (isConnected: boolean) => void;
+
+const listeners = new Set<ConnectivityListener>();
+
+let isConnected = true;
+
+const isOnlineState = (state: NetInfoState) =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+NetInfo.addEventListener((state) => {
+  const next = isOnlineState(state);
+  if (next === isConnected) return;
+  isConnected = next;
+  listeners.forEach((listener) => listener(next));
+});
+
+export function isNetworkConnected() {
+  return isConnected;
+}
+
+export function onConnectivityChange(listener: ConnectivityListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Resolves true once the device is back online, or false after `timeoutMs`
+export function waitForConnection(timeoutMs: number): Promise<boolean> {
+  if (isConnected) return Promise.resolve(true);
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      resolve(false);
+    }, timeoutMs);
+    const unsubscribe = onConnectivityChange((connected) => {
+      if (!connected) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(true);
+    });
+  });
+}
@@ -0,0 +1,284 @@
+import { io, Socket } from 'socket.io-client';
+import { refreshSession } from './api';
+import { credentialStore } from './credentialStore';
+import { emitSessionExpired, isSocketAuthError, onTokensRefreshed } from './authEvents';
+import { recordSocketEvent, recordSocketReconnect, recordSocketState } from './diagnostics';
+import {
+  ClientEventName,
+  ClientToServerEvents,
+  getEventId,
+  isServerEvent,
+  parseServerEvent,
+  ServerEventHandler,
+  ServerEventName,
+} from './socketEvents';
+
+// Single connection to the /orders gateway shared by the whole app. Hooks
+// subscribe to events through here instead of opening sockets of their own:
+// the first subscriber to an event attaches it to the socket, the last one to
+// leave detaches it. Payloads follow the contract in socketEvents.
+
+export type SocketConnectionState = 'disconnected' | 'connecting' | 'connected';
+
+type ConnectionListener = (state: SocketConnectionState) => void;
+type ReconnectListener = () => void;
+type AnyHandler = (...args: any[]) => void;
+
+const connectionListeners = new Set<ConnectionListener>();
+const reconnectListeners = new Set<ReconnectListener>();
+const handlers = new Map<ServerEventName, Set<AnyHandler>>();
+// One socket listener per subscribed event, fanning out to every handler
+const dispatchers = new Map<ServerEventName, AnyHandler>();
+// Order rooms screens asked for, counted per caller and joined again on every connect
+const orderRooms = new Map<string, number>();
+
+let socket: Socket | null = null;
+let connection: { url: string; driverId: string } | null = null;
+let connectionState: SocketConnectionState = 'disconnected';
+// Set after a handshake rejection was answered with a token refresh; a second
+// rejection means the session itself is no longer accepted
+let hasRetriedAuth = false;
+// Whether this connection was up before, so the next connect is a reconnect
+let hasConnected = false;
+// Id of the last event pushed by the server, for replay after a reconnect
+let lastEventId: string | null = null;
+
+const setConnectionState = (state: SocketConnectionState) => {
+  if (state === connectionState) return;
+  connectionState = state;
+  recordSocketState(state);
+  connectionListeners.forEach((listener) => listener(state));
+};
+
+// Malformed payloads are logged and dropped here, so handlers only get valid data
+const createDispatcher = (event: ServerEventName): AnyHandler => (rawPayload: unknown) => {
+  const payload = parseServerEvent(event, rawPayload);
+  if (payload === null) {
+    console.warn(`Ignoring malformed ${event} payload:`, rawPayload);
+    return;
+  }
+
+  handlers.get(event)?.forEach((handler) => {
+    try {
+      handler(payload);
+    } catch (error) {
+      console.error(`Socket ${event} handler error:`, error);
+    }
+  });
+};
+
+// Reconnect so the gateway sees the rotated token; it only checks it on the handshake
+const reconnect = () => {
+  if (!socket) return;
+  socket.disconnect();
+  setConnectionState('connecting');
+  socket.connect();
+};
+
+const handleAuthRejection = async (rejectedSocket: Socket) => {
+  if (hasRetriedAuth) {
+    emitSessionExpired('socket_unauthorized');
+    return;
+  }
+  hasRetriedAuth = true;
+
+  // The access token most likely expired while the app was idle
+  const token = await refreshSession();
+  if (!token) {
+    // The refresh didn't go through (a rejected one also ends the session), so
+    // the next handshake rejection tries refreshing again
+    hasRetriedAuth = false;
+    return;
+  }
+  if (socket === rejectedSocket) {
+    reconnect();
+  }
+};
+
+// A socket left idle by a handshake rejection (no longer active) also picks up
+// tokens rotated later by a REST call
+onTokensRefreshed(() => {
+  if (socket && (socket.connected || !socket.active)) {
+    reconnect();
+  }
+});
+
+// Events pushed while the socket was down are lost; screens reload what they
+// show and the server is asked to replay what it still has
+const handleReconnect = (reconnectedSocket: Socket) => {
+  recordSocketReconnect();
+  if (lastEventId) {
+    reconnectedSocket.emit('replayEvents', { lastEventId });
+  }
+  reconnectListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Socket reconnect listener error:', error);
+    }
+  });
+};
+
+export function getConnectionState() {
+  return connectionState;
+}
+
+export function onConnectionStateChange(listener: ConnectionListener) {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+}
+
+// Called after the connection came back, not on the first connect
+export function onSocketReconnect(listener: ReconnectListener) {
+  reconnectListeners.add(listener);
+  return () => {
+    reconnectListeners.delete(listener);
+  };
+}
+
+// Opens the connection for a driver; calling it again with the same target is a no-op
+export function connectOrdersSocket(url: string, driverId: string) {
+  if (socket && connection?.url === url && connection.driverId === driverId) return;
+  disconnectOrdersSocket();
+
+  connection = { url, driverId };
+  hasRetriedAuth = false;
+  hasConnected = false;
+  lastEventId = null;
+  setConnectionState('connecting');
+
+  const nextSocket = io(url, {
+    path: '/socket.io',
+    transports: ['websocket', 'polling'],
+    // Read on every handshake so a rotated token is always the one sent
+    auth: (callback) => {
+      credentialStore
+        .getAccessToken()
+        .then((token) => callback({ token }))
+        .catch(() => callback({}));
+    },
+  });
+  socket = nextSocket;
+
+  nextSocket.on('connect', () => {
+    console.log('Orders socket connected');
+    // Rooms are lost with the connection, so join again on every reconnect
+    nextSocket.emit('joinDriver', driverId);
+    nextSocket.emit('driverConnect', driverId);
+    orderRooms.forEach((_, orderId) => nextSocket.emit('joinOrder', orderId));
+    hasRetriedAuth = false;
+    setConnectionState('connected');
+    if (hasConnected) {
+      handleReconnect(nextSocket);
+    }
+    hasConnected = true;
+  });
+
+  nextSocket.on('disconnect', (reason) => {
+    console.log('Orders socket disconnected:', reason);
+    setConnectionState(nextSocket.active ? 'connecting' : 'disconnected');
+  });
+
+  nextSocket.on('connect_error', (error) => {
+    console.error('Orders socket connection error:', error.message);
+    if (isSocketAuthError(error)) {
+      // The server refused the handshake, so socket.io won't retry on its own
+      setConnectionState('disconnected');
+      handleAuthRejection(nextSocket);
+    }
+  });
+
+  // Session ended remotely from another device
+  nextSocket.on('sessionRevoked', () => {
+    console.log('Session revoked by server');
+    emitSessionExpired('session_revoked');
+  });
+
+  nextSocket.onAny((event: string, payload: unknown) => {
+    recordSocketEvent(event, 'in');
+    if (!isServerEvent(event)) {
+      console.warn('Unknown socket event:', event, payload);
+    }
+    const eventId = getEventId(payload);
+    if (eventId) {
+      lastEventId = eventId;
+    }
+  });
+
+  dispatchers.forEach((dispatcher, event) => nextSocket.on(event, dispatcher));
+}
+
+export function disconnectOrdersSocket() {
+  if (socket) {
+    socket.removeAllListeners();
+    socket.disconnect();
+    socket = null;
+  }
+  connection = null;
+  setConnectionState('disconnected');
+}
+
+export function subscribe<E extends ServerEventName>(event: E, handler: ServerEventHandler<E>) {
+  let eventHandlers = handlers.get(event);
+  if (!eventHandlers) {
+    eventHandlers = new Set();
+    handlers.set(event, eventHandlers);
+    const dispatcher = createDispatcher(event);
+    dispatchers.set(event, dispatcher);
+    socket?.on(event as string, dispatcher);
+  }
+  eventHandlers.add(handler as AnyHandler);
+
+  return () => {
+    const current = handlers.get(event);
+    if (!current) return;
+    current.delete(handler as AnyHandler);
+    if (current.size > 0) return;
+
+    handlers.delete(event);
+    const dispatcher = dispatchers.get(event);
+    dispatchers.delete(event);
+    if (dispatcher) {
+      socket?.off(event as string, dispatcher);
+    }
+  };
+}
+
+// Returns false when there is no live connection; nothing is buffered, since a
+// stale location or room join is worse than none
+export function emit<E extends ClientEventName>(event: E, payload: ClientToServerEvents[E]) {
+  if (!socket?.connected) return false;
+  socket.emit(event, payload);
+  recordSocketEvent(event, 'out');
+  return true;
+}
+
+// Manual retry from the diagnostics screen; skips socket.io's backoff delay
+export function retryConnection() {
+  if (!socket || socket.connected) return;
+  hasRetriedAuth = false;
+  reconnect();
+}
+
+// Receives the updates published to one order's room while the returned
+// function hasn't been called. The gateway has no leave event, so leaving only
+// stops the room from being joined again after a reconnect.
+export function joinOrderRoom(orderId: string) {
+  const count = orderRooms.get(orderId) ?? 0;
+  orderRooms.set(orderId, count + 1);
+  if (count === 0) {
+    // Joined now when connected, otherwise by the connect handler
+    emit('joinOrder', orderId);
+  }
+
+  return () => {
+    const current = orderRooms.get(orderId) ?? 0;
+    if (current <= 1) {
+      orderRooms.delete(orderId);
+    } else {
+      orderRooms.set(orderId, current - 1);
+    }
+  };
+}
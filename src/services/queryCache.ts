@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Persistent cache of server reads, keyed by endpoint and parameters. Screens show
+// the stored copy right away and revalidate in the background (useCachedQuery).
+
+export interface CacheEntry<T> {
+  data: T;
+  updatedAt: number;
+}
+
+const STORAGE_PREFIX = '@FoodApp:cache:';
+
+export function buildQueryKey(path: string, params?: Record<string, string | number>) {
+  if (!params) return path;
+  const query = Object.keys(params)
+    .sort()
+    .map((name) => `${name}=${params[name]}`)
+    .join('&');
+  return `${path}?${query}`;
+}
+
+export const QUERY_KEYS = {
+  driverProfile: buildQueryKey('drivers/me'),
+  deliveryHistory: buildQueryKey('drivers/deliveries/history'),
+  earningsSummary: buildQueryKey('driver-finance/summary'),
+  earningsToday: buildQueryKey('driver-finance/today'),
+  earnings: (page: number, limit: number) =>
+    buildQueryKey('driver-finance/earnings', { page, limit }),
+};
+
+// Everything a delivery status change can make stale
+export const DELIVERY_DEPENDENT_KEYS = ['drivers/me', 'drivers/deliveries/history', 'driver-finance/'];
+
+type InvalidationListener = (prefixes: string[]) => void;
+
+const listeners = new Set<InvalidationListener>();
+const memory = new Map<string, CacheEntry<unknown>>();
+
+export const matchesQueryKey = (key: string, prefixes: string[]) =>
+  prefixes.some((prefix) => key.startsWith(prefix));
+
+export const queryCache = {
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const cached = memory.get(key);
+    if (cached) return cached as CacheEntry<T>;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+      if (!stored) return null;
+      const entry = JSON.parse(stored) as CacheEntry<T>;
+      memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      console.error('Error reading query cache:', error);
+      return null;
+    }
+  },
+
+  async set<T>(key: string, data: T) {
+    const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+    memory.set(key, entry);
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      console.error('Error writing query cache:', error);
+    }
+    return entry;
+  },
+
+  // Drops every entry whose key starts with one of the prefixes and tells mounted queries to refetch
+  async invalidate(prefixes: string[]) {
+    Array.from(memory.keys())
+      .filter((key) => matchesQueryKey(key, prefixes))
+      .forEach((key) => memory.delete(key));
+
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter(
+        (key) =>
+          key.startsWith(STORAGE_PREFIX) &&
+          matchesQueryKey(key.slice(STORAGE_PREFIX.length), prefixes)
+      );
+      await AsyncStorage.multiRemove(keys);
+    } catch (error) {
+      console.error('Error invalidating query cache:', error);
+    }
+
+    listeners.forEach((listener) => listener(prefixes));
+  },
+
+  // Cached data belongs to the logged-in driver
+  async clear() {
+    memory.clear();
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+        key.startsWith(STORAGE_PREFIX)
+      );
+      await AsyncStorage.multiRemove(keys);
+    } catch (error) {
+      console.error('Error clearing query cache:', error);
+    }
+  },
+};
+
+export function onCacheInvalidated(listener: InvalidationListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
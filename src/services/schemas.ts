@@ -0,0 +1,321 @@
+import {
+  Address,
+  Customer,
+  DailyEarnings,
+  Delivery,
+  DeliveryHistory,
+  Driver,
+  EarningItem,
+  EarningsSummary,
+  OrderItem,
+  Restaurant,
+} from '../types';
+import { ApiError } from './apiErrors';
+
+// Runtime validation of server payloads. Each parser turns a raw payload into a
+// strict domain object, logs fields that don't match the expected schema and
+// falls back to safe defaults instead of letting a screen crash.
+
+type RawObject = Record<string, any>;
+
+export const DELIVERY_STATUSES: Delivery['status'][] = [
+  'PENDING',
+  'ACCEPTED',
+  'PICKED_UP',
+  'IN_TRANSIT',
+  'DELIVERED',
+  'CANCELLED',
+];
+const DRIVER_STATUSES: Driver['status'][] = ['PENDING', 'APPROVED', 'REJECTED', 'SUSPENDED'];
+const VEHICLE_TYPES: Driver['vehicleType'][] = ['MOTORCYCLE', 'BICYCLE', 'CAR'];
+const EARNING_TYPES: EarningItem['type'][] = ['DELIVERY', 'BONUS', 'TIP'];
+
+// Report each drifted field once per app run to keep the log readable
+const reportedDrift = new Set<string>();
+
+export function reportSchemaDrift(entity: string, field: string, value: unknown) {
+  const key = `${entity}.${field}`;
+  if (reportedDrift.has(key)) return;
+  reportedDrift.add(key);
+  console.warn(`Schema drift in ${key}:`, value);
+}
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (entity: string, field: string, value: unknown, fallback = 0) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  // Decimal columns arrive as strings - that's expected, not drift
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  if (value !== undefined && value !== null) {
+    reportSchemaDrift(entity, field, value);
+  }
+  return fallback;
+};
+
+const toOptionalNumber = (entity: string, field: string, value: unknown) =>
+  value === undefined || value === null ? undefined : toNumber(entity, field, value);
+
+const toString = (entity: string, field: string, value: unknown, fallback = '') => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (value !== undefined && value !== null) {
+    reportSchemaDrift(entity, field, value);
+  }
+  return fallback;
+};
+
+const toOptionalString = (entity: string, field: string, value: unknown) =>
+  value === undefined || value === null ? undefined : toString(entity, field, value);
+
+const toEnum = <T extends string>(entity: string, field: string, value: unknown, allowed: T[], fallback: T) => {
+  if (allowed.includes(value as T)) return value as T;
+  reportSchemaDrift(entity, field, value);
+  return fallback;
+};
+
+function parseAddress(value: unknown): Address | undefined {
+  let raw = value;
+  // Some endpoints send the JSON column serialized as a string
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      reportSchemaDrift('Address', '(root)', value);
+      return undefined;
+    }
+  }
+  if (!isObject(raw)) {
+    if (raw !== undefined && raw !== null) reportSchemaDrift('Address', '(root)', raw);
+    return undefined;
+  }
+
+  return {
+    street: toString('Address', 'street', raw.street),
+    number: toString('Address', 'number', raw.number),
+    complement: toOptionalString('Address', 'complement', raw.complement),
+    neighborhood: toString('Address', 'neighborhood', raw.neighborhood),
+    city: toString('Address', 'city', raw.city),
+    state: toString('Address', 'state', raw.state),
+    zipCode: toString('Address', 'zipCode', raw.zipCode),
+    latitude: toOptionalNumber('Address', 'latitude', raw.latitude),
+    longitude: toOptionalNumber('Address', 'longitude', raw.longitude),
+  };
+}
+
+function parseRestaurant(value: unknown): Restaurant {
+  if (!isObject(value)) {
+    reportSchemaDrift('Restaurant', '(root)', value);
+    return { id: '', name: 'Restaurante' };
+  }
+
+  return {
+    id: toString('Restaurant', 'id', value.id),
+    name: toString('Restaurant', 'name', value.name, 'Restaurante'),
+    phone: toOptionalString('Restaurant', 'phone', value.phone),
+    street: toOptionalString('Restaurant', 'street', value.street),
+    number: toOptionalString('Restaurant', 'number', value.number),
+    neighborhood: toOptionalString('Restaurant', 'neighborhood', value.neighborhood),
+    city: toOptionalString('Restaurant', 'city', value.city),
+    state: toOptionalString('Restaurant', 'state', value.state),
+    zipCode: toOptionalString('Restaurant', 'zipCode', value.zipCode),
+    latitude: toOptionalNumber('Restaurant', 'latitude', value.latitude),
+    longitude: toOptionalNumber('Restaurant', 'longitude', value.longitude),
+  };
+}
+
+function parseCustomer(value: unknown): Customer {
+  if (!isObject(value)) {
+    reportSchemaDrift('Customer', '(root)', value);
+    return { fullName: 'Cliente' };
+  }
+
+  return {
+    fullName: toString('Customer', 'fullName', value.fullName, 'Cliente'),
+    // Phone lives either on the customer or on its user account
+    phone: toOptionalString('Customer', 'phone', value.phone ?? value.user?.phone),
+  };
+}
+
+function parseOrderItem(value: unknown, index: number): OrderItem | null {
+  if (!isObject(value)) {
+    reportSchemaDrift('OrderItem', '(root)', value);
+    return null;
+  }
+
+  return {
+    id: toString('OrderItem', 'id', value.id, String(index)),
+    name: toString('OrderItem', 'name', value.menuItem?.name ?? value.name, 'Item'),
+    quantity: toNumber('OrderItem', 'quantity', value.quantity, 1),
+  };
+}
+
+// Returns null when the payload cannot be used at all (no id)
+export function parseDelivery(value: unknown): Delivery | null {
+  if (!isObject(value) || typeof value.id !== 'string') {
+    reportSchemaDrift('Delivery', 'id', isObject(value) ? value.id : value);
+    return null;
+  }
+
+  const items = Array.isArray(value.items) ? value.items : [];
+  if (value.items !== undefined && !Array.isArray(value.items)) {
+    reportSchemaDrift('Delivery', 'items', value.items);
+  }
+
+  return {
+    id: value.id,
+    orderId: toOptionalString('Delivery', 'orderId', value.orderId),
+    status: toEnum('Delivery', 'status', value.status, DELIVERY_STATUSES, 'PENDING'),
+    pickupAddress: parseAddress(value.pickupAddress),
+    deliveryAddress: parseAddress(value.deliveryAddress),
+    restaurant: parseRestaurant(value.restaurant),
+    customer: parseCustomer(value.customer),
+    items: items
+      .map(parseOrderItem)
+      .filter((item): item is OrderItem => item !== null),
+    total: toNumber('Delivery', 'total', value.total),
+    paymentMethod: toOptionalString('Delivery', 'paymentMethod', value.paymentMethod),
+    notes: toOptionalString('Delivery', 'notes', value.notes),
+    estimatedDistance: toOptionalNumber('Delivery', 'estimatedDistance', value.estimatedDistance),
+    estimatedTime: toOptionalNumber('Delivery', 'estimatedTime', value.estimatedTime),
+    deliveryFee: toNumber('Delivery', 'deliveryFee', value.deliveryFee),
+    createdAt: toOptionalString('Delivery', 'createdAt', value.createdAt),
+    acceptedAt: toOptionalString('Delivery', 'acceptedAt', value.acceptedAt),
+    pickedUpAt: toOptionalString('Delivery', 'pickedUpAt', value.pickedUpAt),
+    deliveredAt: toOptionalString('Delivery', 'deliveredAt', value.deliveredAt ?? value.completedAt),
+  };
+}
+
+export function parseDeliveries(value: unknown): Delivery[] {
+  if (!Array.isArray(value)) {
+    reportSchemaDrift('Delivery[]', '(root)', value);
+    return [];
+  }
+  return value.map(parseDelivery).filter((delivery): delivery is Delivery => delivery !== null);
+}
+
+export function parseDeliveryHistory(value: unknown): DeliveryHistory | null {
+  if (!isObject(value) || typeof value.id !== 'string') {
+    reportSchemaDrift('DeliveryHistory', 'id', isObject(value) ? value.id : value);
+    return null;
+  }
+
+  // Restaurant and customer may come as objects or as plain names
+  const restaurant = isObject(value.restaurant) ? value.restaurant.name : value.restaurant;
+  const customer = isObject(value.customer) ? value.customer.fullName : value.customer;
+
+  return {
+    id: value.id,
+    restaurant: toString('DeliveryHistory', 'restaurant', restaurant, 'Restaurante'),
+    customer: toString('DeliveryHistory', 'customer', customer, 'Cliente'),
+    deliveryFee: toNumber('DeliveryHistory', 'deliveryFee', value.deliveryFee),
+    status: toString('DeliveryHistory', 'status', value.status),
+    completedAt: toOptionalString(
+      'DeliveryHistory',
+      'completedAt',
+      value.deliveredAt ?? value.completedAt
+    ),
+  };
+}
+
+// A profile without an id can't be trusted for the status gate - treat it as a bad
+// server response instead of defaulting to a PENDING driver
+export function parseDriver(value: unknown): Driver {
+  if (!isObject(value) || typeof value.id !== 'string' || !value.id) {
+    reportSchemaDrift('Driver', 'id', isObject(value) ? value.id : value);
+    throw new ApiError('server', { cause: value });
+  }
+  const raw = value;
+
+  return {
+    id: toString('Driver', 'id', raw.id),
+    fullName: toString('Driver', 'fullName', raw.fullName),
+    phone: toString('Driver', 'phone', raw.phone),
+    cpf: toString('Driver', 'cpf', raw.cpf),
+    vehicleType: toEnum('Driver', 'vehicleType', raw.vehicleType, VEHICLE_TYPES, 'MOTORCYCLE'),
+    vehiclePlate: toOptionalString('Driver', 'vehiclePlate', raw.vehiclePlate),
+    // An unknown status must never unlock going online
+    status: toEnum('Driver', 'status', raw.status, DRIVER_STATUSES, 'PENDING'),
+    isOnline: raw.isOnline === true,
+    currentLatitude: toOptionalNumber('Driver', 'currentLatitude', raw.currentLatitude),
+    currentLongitude: toOptionalNumber('Driver', 'currentLongitude', raw.currentLongitude),
+    rating: toNumber('Driver', 'rating', raw.rating),
+    totalDeliveries: toNumber('Driver', 'totalDeliveries', raw.totalDeliveries),
+    totalEarnings: toNumber('Driver', 'totalEarnings', raw.totalEarnings),
+    rejectionReasons: Array.isArray(raw.rejectionReasons)
+      ? raw.rejectionReasons.filter((reason: unknown) => typeof reason === 'string')
+      : undefined,
+    suspensionReason: toOptionalString('Driver', 'suspensionReason', raw.suspensionReason),
+    suspendedUntil: toOptionalString('Driver', 'suspendedUntil', raw.suspendedUntil),
+    statusUpdatedAt: toOptionalString('Driver', 'statusUpdatedAt', raw.statusUpdatedAt),
+    createdAt: toOptionalString('Driver', 'createdAt', raw.createdAt),
+  };
+}
+
+export function parseEarningItem(value: unknown): EarningItem | null {
+  if (!isObject(value) || typeof value.id !== 'string') {
+    reportSchemaDrift('EarningItem', 'id', isObject(value) ? value.id : value);
+    return null;
+  }
+
+  return {
+    id: value.id,
+    amount: toNumber('EarningItem', 'amount', value.amount),
+    type: toEnum('EarningItem', 'type', value.type, EARNING_TYPES, 'DELIVERY'),
+    description: toString('EarningItem', 'description', value.description),
+    createdAt: toString('EarningItem', 'createdAt', value.createdAt),
+    order: isObject(value.order)
+      ? {
+          orderNumber: toString('EarningItem', 'order.orderNumber', value.order.orderNumber),
+          restaurant: isObject(value.order.restaurant)
+            ? { name: toString('EarningItem', 'order.restaurant.name', value.order.restaurant.name) }
+            : undefined,
+        }
+      : undefined,
+  };
+}
+
+export function parseEarningItems(value: unknown): EarningItem[] {
+  if (!Array.isArray(value)) {
+    reportSchemaDrift('EarningItem[]', '(root)', value);
+    return [];
+  }
+  return value.map(parseEarningItem).filter((item): item is EarningItem => item !== null);
+}
+
+export function parseEarningsSummary(value: unknown): EarningsSummary {
+  const raw = isObject(value) ? value : {};
+  if (!isObject(value)) reportSchemaDrift('EarningsSummary', '(root)', value);
+
+  return {
+    totalEarnings: toNumber('EarningsSummary', 'totalEarnings', raw.totalEarnings),
+    totalDeliveries: toNumber('EarningsSummary', 'totalDeliveries', raw.totalDeliveries),
+    totalBonuses: toNumber('EarningsSummary', 'totalBonuses', raw.totalBonuses),
+    totalTips: toNumber('EarningsSummary', 'totalTips', raw.totalTips),
+    pendingBalance: toNumber('EarningsSummary', 'pendingBalance', raw.pendingBalance),
+    paidOutAmount: toNumber('EarningsSummary', 'paidOutAmount', raw.paidOutAmount),
+    averagePerDelivery: toNumber('EarningsSummary', 'averagePerDelivery', raw.averagePerDelivery),
+  };
+}
+
+export function parseDailyEarnings(value: unknown): DailyEarnings {
+  const raw = isObject(value) ? value : {};
+  if (!isObject(value)) reportSchemaDrift('DailyEarnings', '(root)', value);
+  const summary = isObject(raw.summary) ? raw.summary : {};
+
+  return {
+    date: toString('DailyEarnings', 'date', raw.date, new Date().toISOString().split('T')[0]),
+    earnings: parseEarningItems(raw.earnings ?? []),
+    summary: {
+      total: toNumber('DailyEarnings', 'summary.total', summary.total),
+      deliveryCount: toNumber('DailyEarnings', 'summary.deliveryCount', summary.deliveryCount),
+      averagePerDelivery: toNumber(
+        'DailyEarnings',
+        'summary.averagePerDelivery',
+        summary.averagePerDelivery
+      ),
+    },
+  };
+}
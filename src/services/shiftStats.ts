@@ -0,0 +1,71 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ShiftStats } from '../types';
+
+// Per-shift counters, persisted so an app restart mid-shift doesn't reset them.
+// A shift starts when the driver goes online and ends when they go offline.
+
+const STORAGE_KEY = '@FoodApp:shiftStats';
+
+type ShiftListener = (stats: ShiftStats | null) => void;
+
+const listeners = new Set<ShiftListener>();
+
+let current: ShiftStats | null = null;
+let loadPromise: Promise<ShiftStats | null> | null = null;
+
+const save = async (stats: ShiftStats | null) => {
+  current = stats;
+  listeners.forEach((listener) => listener(stats));
+  try {
+    if (stats) {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving shift stats:', error);
+  }
+};
+
+export function getShiftStats() {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored && !current) {
+          current = JSON.parse(stored) as ShiftStats;
+        }
+      } catch (error) {
+        console.error('Error loading shift stats:', error);
+      }
+      return current;
+    })();
+  }
+  return loadPromise.then(() => current);
+}
+
+export async function startShift() {
+  await getShiftStats();
+  await save({ startedAt: Date.now(), declines: 0 });
+}
+
+export async function endShift() {
+  await getShiftStats();
+  await save(null);
+}
+
+export async function recordDecline() {
+  const stats = await getShiftStats();
+  // Declining while the shift wasn't tracked (e.g. older app version) starts one
+  await save({
+    startedAt: stats?.startedAt ?? Date.now(),
+    declines: (stats?.declines ?? 0) + 1,
+  });
+}
+
+export function onShiftStatsChange(listener: ShiftListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
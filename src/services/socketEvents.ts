@@ -0,0 +1,131 @@
+import { Delivery } from '../types';
+import { DELIVERY_STATUSES, parseDelivery, reportSchemaDrift } from './schemas';
+
+// Contract of the /orders gateway: every event either side may send, with its
+// payload. Incoming payloads are validated here before any handler sees them.
+
+// Server events carry an increasing id the app can ask to replay from
+interface ServerEvent {
+  eventId?: string;
+}
+
+export interface NewAvailableDeliveryEvent extends ServerEvent {
+  order: Delivery;
+  // When the offer stops being valid (epoch ms), if the server sets a TTL
+  expiresAt: number | null;
+}
+
+export interface DeliveryTakenEvent extends ServerEvent {
+  orderId: string;
+}
+
+export interface OrderStatusUpdateEvent extends ServerEvent {
+  orderId: string;
+  status: Delivery['status'];
+  // Missing when the server only sends the transition
+  order: Delivery | null;
+}
+
+export interface LocationUpdatePayload {
+  driverId: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+  orderId?: string | null;
+}
+
+// Events the gateway pushes to drivers
+export interface ServerToClientEvents {
+  newAvailableDelivery: NewAvailableDeliveryEvent;
+  deliveryTaken: DeliveryTakenEvent;
+  orderStatusUpdate: OrderStatusUpdateEvent;
+  sessionRevoked: undefined;
+}
+
+// Events the app sends to the gateway
+export interface ClientToServerEvents {
+  joinDriver: string;
+  // Marks the driver as connected for dispatch; sent since the first tracking socket
+  driverConnect: string;
+  joinOrder: string;
+  updateLocation: LocationUpdatePayload;
+  // Asks the server to resend what was pushed after lastEventId
+  replayEvents: { lastEventId: string };
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+export type ClientEventName = keyof ClientToServerEvents;
+
+export type ServerEventHandler<E extends ServerEventName> = (
+  payload: ServerToClientEvents[E]
+) => void;
+
+type RawObject = Record<string, any>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readEventId = (value: RawObject) =>
+  typeof value.eventId === 'string' || typeof value.eventId === 'number'
+    ? String(value.eventId)
+    : undefined;
+
+// Accepts an absolute expiresAt (ISO or epoch ms) or a relative ttl in seconds
+const readExpiresAt = (value: RawObject) => {
+  if (typeof value.expiresAt === 'number') return value.expiresAt;
+  if (typeof value.expiresAt === 'string') {
+    const time = Date.parse(value.expiresAt);
+    if (!Number.isNaN(time)) return time;
+    reportSchemaDrift('NewAvailableDelivery', 'expiresAt', value.expiresAt);
+  }
+  if (typeof value.ttl === 'number' && value.ttl > 0) {
+    return Date.now() + value.ttl * 1000;
+  }
+  return null;
+};
+
+// Each parser returns null when the payload can't be handled at all
+const SERVER_EVENT_PARSERS: {
+  [E in ServerEventName]: (payload: unknown) => ServerToClientEvents[E] | null;
+} = {
+  newAvailableDelivery: (payload) => {
+    if (!isObject(payload)) return null;
+    const order = parseDelivery(payload.order);
+    if (!order) return null;
+    return { order, expiresAt: readExpiresAt(payload), eventId: readEventId(payload) };
+  },
+
+  deliveryTaken: (payload) => {
+    if (!isObject(payload) || typeof payload.orderId !== 'string') return null;
+    return { orderId: payload.orderId, eventId: readEventId(payload) };
+  },
+
+  orderStatusUpdate: (payload) => {
+    if (!isObject(payload) || typeof payload.orderId !== 'string') return null;
+    if (!DELIVERY_STATUSES.includes(payload.status)) {
+      reportSchemaDrift('OrderStatusUpdate', 'status', payload.status);
+      return null;
+    }
+    return {
+      orderId: payload.orderId,
+      status: payload.status,
+      order: payload.order === undefined ? null : parseDelivery(payload.order),
+      eventId: readEventId(payload),
+    };
+  },
+
+  sessionRevoked: () => undefined,
+};
+
+export const isServerEvent = (name: string): name is ServerEventName =>
+  Object.prototype.hasOwnProperty.call(SERVER_EVENT_PARSERS, name);
+
+export function parseServerEvent<E extends ServerEventName>(event: E, payload: unknown) {
+  return SERVER_EVENT_PARSERS[event](payload) as ServerToClientEvents[E] | null;
+}
+
+// Any event id the server attached, known event or not
+export const getEventId = (payload: unknown) =>
+  isObject(payload) ? readEventId(payload) ?? null : null;
@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { ApiError, toApiError } from './apiErrors';
+import { ordersApi } from './driverApi';
+import { onEnvironmentChange } from './environment';
+import { DELIVERY_DEPENDENT_KEYS, queryCache } from './queryCache';
+import { Delivery, PendingStatusChange } from '../types';
+
+// Persistent outbox for delivery status transitions. Changes are stored locally
+// first and replayed in order with their idempotency key, so a confirmation made
+// without signal is delivered once connectivity returns and never applied twice.
+
+const STORAGE_KEY = '@FoodApp:statusOutbox';
+
+export type OutboxEvent = { pending: PendingStatusChange[] } & (
+  | { type: 'changed' }
+  | { type: 'confirmed'; change: PendingStatusChange; delivery: Delivery | null }
+  | { type: 'rejected'; change: PendingStatusChange; error: ApiError }
+);
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+const listeners = new Set<OutboxListener>();
+
+let queue: PendingStatusChange[] | null = null;
+let loadPromise: Promise<PendingStatusChange[]> | null = null;
+let flushPromise: Promise<void> | null = null;
+
+const load = () => {
+  if (queue) return Promise.resolve(queue);
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+      .then((stored) => {
+        queue = stored ? (JSON.parse(stored) as PendingStatusChange[]) : [];
+        return queue;
+      })
+      .catch((error) => {
+        console.error('Error loading status outbox:', error);
+        queue = [];
+        return queue;
+      });
+  }
+  return loadPromise;
+};
+
+const persist = async (changes: PendingStatusChange[]) => {
+  queue = changes;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(changes));
+};
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Status outbox listener error:', error);
+    }
+  });
+};
+
+// Network failures, timeouts, auth refreshes and server errors are worth retrying;
+// any other 4xx means the server refused the transition and replaying won't help
+const isRetryable = (error: unknown) => !(error instanceof ApiError) || error.isTransient;
+
+// Transitions belong to the driver and backend that queued them; they are
+// dropped on logout, session expiry and when the environment is switched
+export async function clearOutbox() {
+  await load();
+  queue = [];
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing status outbox:', error);
+  }
+  emit({ type: 'changed', pending: [] });
+}
+
+onEnvironmentChange(() => {
+  clearOutbox();
+});
+
+export function onOutboxEvent(listener: OutboxListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getPendingChanges() {
+  return [...(await load())];
+}
+
+export async function enqueueStatusChange(orderId: string, status: Delivery['status']) {
+  const pending = await load();
+
+  // A double tap must not queue the same transition twice
+  const last = [...pending].reverse().find((change) => change.orderId === orderId);
+  if (last?.status === status) return last;
+
+  const change: PendingStatusChange = {
+    idempotencyKey: Crypto.randomUUID(),
+    orderId,
+    status,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  const next = [...pending, change];
+  await persist(next);
+  emit({ type: 'changed', pending: next });
+  return change;
+}
+
+const removeChange = async (idempotencyKey: string) => {
+  const next = (await load()).filter((change) => change.idempotencyKey !== idempotencyKey);
+  await persist(next);
+  return next;
+};
+
+// Sends queued changes oldest first and stops at the first one that can be retried,
+// so transitions of the same order are never applied out of order
+export function flushOutbox() {
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      // Re-read the queue on every step: changes may be enqueued while a request is in flight
+      let change: PendingStatusChange | undefined;
+      while ((change = (await load())[0])) {
+        try {
+          const delivery = await ordersApi.updateStatus(
+            change.orderId,
+            change.status,
+            change.idempotencyKey
+          );
+          const pending = await removeChange(change.idempotencyKey);
+          // History, earnings and profile totals changed on the server
+          queryCache.invalidate(DELIVERY_DEPENDENT_KEYS);
+          emit({ type: 'confirmed', change, delivery, pending });
+        } catch (error) {
+          if (isRetryable(error)) {
+            const failed = change;
+            const pending = (await load()).map((item) =>
+              item.idempotencyKey === failed.idempotencyKey
+                ? { ...item, attempts: item.attempts + 1 }
+                : item
+            );
+            await persist(pending);
+            emit({ type: 'changed', pending });
+            return;
+          }
+
+          const pending = await removeChange(change.idempotencyKey);
+          emit({
+            type: 'rejected',
+            change,
+            error: toApiError(error),
+            pending,
+          });
+        }
+      }
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+}
@@ -5,6 +5,29 @@ export interface User {
   driver?: Driver;
 }
 
+export interface AuthResponse {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+}
+
+export interface DeviceSession {
+  id: string;
+  deviceName: string;
+  platform?: string;
+  ipAddress?: string;
+  lastActiveAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export interface AppLockConfig {
+  pinHash: string;
+  salt: string;
+  timeoutMs: number;
+  failedAttempts: number;
+}
+
 export interface Driver {
   id: string;
   fullName: string;
@@ -19,8 +42,18 @@ export interface Driver {
   rating: number;
   totalDeliveries: number;
   totalEarnings: number;
+  rejectionReasons?: string[];
+  suspensionReason?: string;
+  suspendedUntil?: string;
+  statusUpdatedAt?: string;
+  createdAt?: string;
 }
 
+export type DriverRegistrationData = Pick<
+  Driver,
+  'fullName' | 'phone' | 'cpf' | 'vehicleType' | 'vehiclePlate'
+>;
+
 export interface Restaurant {
   id: string;
   name: string;
@@ -38,9 +71,6 @@ export interface Restaurant {
 export interface Customer {
   fullName: string;
   phone?: string;
-  user?: {
-    phone?: string;
-  };
 }
 
 export interface Delivery {
@@ -51,13 +81,13 @@ export interface Delivery {
   deliveryAddress?: Address;
   restaurant: Restaurant;
   customer: Customer;
-  items?: any[];
-  total?: number;
+  items: OrderItem[];
+  total: number;
   paymentMethod?: string;
   notes?: string;
   estimatedDistance?: number;
   estimatedTime?: number;
-  deliveryFee?: number;
+  deliveryFee: number;
   createdAt?: string;
   acceptedAt?: string;
   pickedUpAt?: string;
@@ -82,6 +112,40 @@ export interface OrderItem {
   quantity: number;
 }
 
+// Why a driver passed on an offered delivery
+export type DeclineReason = 'TOO_FAR' | 'LOW_FEE' | 'WRONG_VEHICLE' | 'OTHER';
+
+// Counters for the current shift, from going online until going offline
+export interface ShiftStats {
+  startedAt: number;
+  declines: number;
+}
+
+// Offer pushed over the socket, shown full-screen until answered or expired
+export interface DeliveryOffer {
+  delivery: Delivery;
+  expiresAt: number;
+  // False when the server sent no TTL and the app's default countdown applies
+  hasServerTtl: boolean;
+}
+
+// Change made to the active delivery on the server side, shown full-screen
+export interface DeliveryUpdateNotice {
+  // All but changed end the delivery and send the driver back to Main;
+  // unassigned means the order was given to another driver
+  type: 'cancelled' | 'completed' | 'unassigned' | 'changed';
+  changes: string[];
+}
+
+// Delivery status transition waiting in the offline outbox
+export interface PendingStatusChange {
+  idempotencyKey: string;
+  orderId: string;
+  status: Delivery['status'];
+  createdAt: string;
+  attempts: number;
+}
+
 export interface Earnings {
   today: number;
   week: number;
@@ -101,5 +165,49 @@ export interface DeliveryHistory {
   customer: string;
   deliveryFee: number;
   status: string;
-  completedAt: string;
+  completedAt?: string;
+}
+
+export interface EarningsSummary {
+  totalEarnings: number;
+  totalDeliveries: number;
+  totalBonuses: number;
+  totalTips: number;
+  pendingBalance: number;
+  paidOutAmount: number;
+  averagePerDelivery: number;
+}
+
+export interface DailyEarnings {
+  date: string;
+  earnings: EarningItem[];
+  summary: {
+    total: number;
+    deliveryCount: number;
+    averagePerDelivery: number;
+  };
+}
+
+export interface EarningItem {
+  id: string;
+  amount: number;
+  type: 'DELIVERY' | 'BONUS' | 'TIP';
+  description: string;
+  createdAt: string;
+  order?: {
+    orderNumber: string;
+    restaurant?: {
+      name: string;
+    };
+  };
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
 }
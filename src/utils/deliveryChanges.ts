@@ -0,0 +1,50 @@
+import { Address, Delivery } from '../types';
+
+// Describes what the customer or the restaurant changed on a delivery the
+// driver is already carrying, as short pt-BR lines for the update alert
+
+const STATUS_LABELS: Record<Delivery['status'], string> = {
+  PENDING: 'Aguardando entregador',
+  ACCEPTED: 'Aceito',
+  PICKED_UP: 'Retirado',
+  IN_TRANSIT: 'Em trânsito',
+  DELIVERED: 'Entregue',
+  CANCELLED: 'Cancelado',
+};
+
+const formatAddress = (address?: Address) =>
+  address
+    ? `${address.street}, ${address.number}${address.complement ? ` (${address.complement})` : ''} - ${address.neighborhood}`
+    : '';
+
+const formatItems = (delivery: Delivery) =>
+  delivery.items.map((item) => `${item.quantity}x ${item.name}`).join(', ');
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function getDeliveryChanges(previous: Delivery, next: Delivery) {
+  const changes: string[] = [];
+
+  if (previous.status !== next.status) {
+    changes.push(`Status: ${STATUS_LABELS[next.status]}`);
+  }
+  const nextAddress = formatAddress(next.deliveryAddress);
+  if (formatAddress(previous.deliveryAddress) !== nextAddress) {
+    changes.push(`Novo endereço de entrega: ${nextAddress || 'não informado'}`);
+  }
+  if (formatItems(previous) !== formatItems(next)) {
+    changes.push(`Itens do pedido: ${formatItems(next) || 'nenhum'}`);
+  }
+  if (previous.total !== next.total) {
+    changes.push(`Novo valor do pedido: ${formatCurrency(next.total)}`);
+  }
+  if ((previous.paymentMethod ?? '') !== (next.paymentMethod ?? '')) {
+    changes.push(`Forma de pagamento: ${next.paymentMethod || 'não informada'}`);
+  }
+  if ((previous.notes ?? '') !== (next.notes ?? '')) {
+    changes.push(next.notes ? `Observações: ${next.notes}` : 'Observações removidas');
+  }
+
+  return changes;
+}
@@ -0,0 +1,71 @@
+import { Alert, AlertButton } from 'react-native';
+import { isRequestCancelled } from '../services/api';
+import { ApiError, ERROR_DESCRIPTIONS, RecoveryAction } from '../services/apiErrors';
+
+// Shared way of telling the driver something went wrong. Screens pass the caught
+// error plus whatever recovery they can offer; wording comes from the error kind.
+
+export interface ErrorPresentation {
+  title: string;
+  message: string;
+  recovery: RecoveryAction;
+}
+
+interface PresentErrorOptions {
+  // Replaces the generic title, e.g. 'Não foi possível aceitar a entrega'
+  title?: string;
+  onRetry?: () => void;
+  onRefresh?: () => void;
+}
+
+export function describeError(error: unknown): ErrorPresentation {
+  if (error instanceof ApiError) {
+    const description = ERROR_DESCRIPTIONS[error.kind];
+    return {
+      title: description.title,
+      message:
+        description.preferServerMessage && error.serverMessage
+          ? error.serverMessage
+          : description.message,
+      recovery: description.recovery,
+    };
+  }
+
+  // Errors thrown by the app itself (account checks, environment switch, device
+  // storage) already carry a readable message
+  const description = ERROR_DESCRIPTIONS.unknown;
+  return {
+    title: description.title,
+    message: (error instanceof Error && error.message) || description.message,
+    recovery: description.recovery,
+  };
+}
+
+// Message only, for screens that render errors inline
+export const getErrorMessage = (error: unknown) => describeError(error).message;
+
+export function presentError(error: unknown, options: PresentErrorOptions = {}) {
+  // Cancelled on purpose, and an expired session is handled by the login screen banner
+  if (isRequestCancelled(error) || (error instanceof ApiError && error.kind === 'auth')) {
+    return;
+  }
+
+  const { title, message, recovery } = describeError(error);
+  const buttons: AlertButton[] = [];
+
+  if (recovery === 'retry' && options.onRetry) {
+    buttons.push(
+      { text: 'Cancelar', style: 'cancel' },
+      { text: 'Tentar novamente', onPress: options.onRetry }
+    );
+  } else if (recovery === 'refresh' && options.onRefresh) {
+    buttons.push(
+      { text: 'OK', style: 'cancel' },
+      { text: 'Atualizar', onPress: options.onRefresh }
+    );
+  } else {
+    buttons.push({ text: 'OK' });
+  }
+
+  Alert.alert(options.title ?? title, message, buttons);
+}
@@ -0,0 +1,51 @@
+// Validation helpers for Brazilian documents and driver registration fields
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+export function isValidCpf(value: string) {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(cpf[i]) * (length + 1 - i);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+}
+
+// DDD + number, without the 55 country code the server stores
+export const toNationalPhone = (value: string) => onlyDigits(value).replace(/^55(?=\d{11}$)/, '');
+
+// Backend expects E.164 numbers (+55DDDNNNNNNNNN)
+export const toE164Phone = (value: string) => `+55${toNationalPhone(value)}`;
+
+// Brazilian mobile: DDD (2 digits) + 9 + 8 digits, optionally prefixed with 55
+export function isValidMobilePhone(value: string) {
+  return /^[1-9]{2}9\d{8}$/.test(toNationalPhone(value));
+}
+
+// Old format (ABC1234) or Mercosul (ABC1D23)
+export function isValidVehiclePlate(value: string) {
+  return /^[A-Z]{3}\d[A-Z0-9]\d{2}$/.test(value.replace(/[\s-]/g, '').toUpperCase());
+}
+
+export function formatCpf(value: string) {
+  return onlyDigits(value)
+    .slice(0, 11)
+    .replace(/(\d{3})(\d)/, '$1.$2')
+    .replace(/(\d{3})(\d)/, '$1.$2')
+    .replace(/(\d{3})(\d{1,2})$/, '$1-$2');
+}
+
+// Also takes numbers stored with the country code (+5511...)
+export function formatPhone(value: string) {
+  return toNationalPhone(value)
+    .slice(0, 11)
+    .replace(/^(\d{2})(\d)/, '($1) $2')
+    .replace(/(\d{5})(\d{1,4})$/, '$1-$2');
+}